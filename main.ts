@@ -16,12 +16,19 @@
     along with this program.  If not, see <https://www.gnu.org/licenses/>.
 */
 
+import { createHash } from "node:crypto";
 import chalk from "npm:chalk@^5.4.1";
-import { Command } from "npm:commander@^13.1.0";
+import { Command, Option } from "npm:commander@^13.1.0";
 import { copy } from "jsr:@std/fs@^1.0.19/copy";
 import { emptyDir } from "jsr:@std/fs@^1.0.17/empty-dir";
 import { exists } from "jsr:@std/fs@^1.0.17/exists";
-import { basename, join } from "jsr:@std/path@^1.1.1";
+import {
+	basename,
+	dirname,
+	fromFileUrl,
+	globToRegExp,
+	join,
+} from "jsr:@std/path@^1.1.1";
 import { Table } from "jsr:@cliffy/table@^1.0.0-rc.8";
 
 const VERSION = "0.2.1";
@@ -45,24 +52,71 @@ const APP_PATHS = {
 	CUSTOM_PROFILES_ROOT_DIR: Deno.env.get("CINNAMON_PROFILES_DIR") ||
 		join(ENV.HOME, ".cinnamon-profiles"),
 	PROFILES_DB_FILE: "",
+	PROFILES_QUARANTINE_FILE: "",
+	LOCK_FILE: "",
+	JOURNAL_FILE: "",
+	CONFIG_FILE: "",
+	OBJECTS_DIR: "",
+	STORE_MIGRATED_FILE: "",
 	BACKUP_DIR: "",
 	AUTO_BACKUP_DIR: "",
+	SCHEDULED_BACKUP_DIR: "",
 };
 APP_PATHS.PROFILES_DB_FILE = join(
 	APP_PATHS.CUSTOM_PROFILES_ROOT_DIR,
 	"profiles.json",
 );
+APP_PATHS.PROFILES_QUARANTINE_FILE = join(
+	APP_PATHS.CUSTOM_PROFILES_ROOT_DIR,
+	"profiles.quarantine.json",
+);
+APP_PATHS.LOCK_FILE = join(APP_PATHS.CUSTOM_PROFILES_ROOT_DIR, ".lock");
+APP_PATHS.JOURNAL_FILE = join(
+	APP_PATHS.CUSTOM_PROFILES_ROOT_DIR,
+	"restore-journal.json",
+);
+APP_PATHS.CONFIG_FILE = join(APP_PATHS.CUSTOM_PROFILES_ROOT_DIR, "config.json");
+APP_PATHS.OBJECTS_DIR = join(APP_PATHS.CUSTOM_PROFILES_ROOT_DIR, "objects");
+// written once zip files from older versions have been converted to snapshots
+APP_PATHS.STORE_MIGRATED_FILE = join(
+	APP_PATHS.CUSTOM_PROFILES_ROOT_DIR,
+	".store-migrated",
+);
 APP_PATHS.BACKUP_DIR = join(APP_PATHS.CUSTOM_PROFILES_ROOT_DIR, "backup");
 APP_PATHS.AUTO_BACKUP_DIR = join(
 	APP_PATHS.CUSTOM_PROFILES_ROOT_DIR,
 	"auto-backup",
 );
+APP_PATHS.SCHEDULED_BACKUP_DIR = join(
+	APP_PATHS.CUSTOM_PROFILES_ROOT_DIR,
+	"scheduled-backup",
+);
+
+// systemd user units that take scheduled snapshots
+const SCHEDULE_PATHS = {
+	UNIT_DIR: join(ENV.HOME, ".config", "systemd", "user"),
+	SERVICE_FILE: join(
+		ENV.HOME,
+		".config",
+		"systemd",
+		"user",
+		`${PROGRAM_NAME}-snapshot.service`,
+	),
+	TIMER_FILE: join(
+		ENV.HOME,
+		".config",
+		"systemd",
+		"user",
+		`${PROGRAM_NAME}-snapshot.timer`,
+	),
+};
 
 const CINNAMON_PATHS = {
 	SHARE_DIR_RELATIVE: join(".local", "share", "cinnamon"),
 	CONFIG_DIR_RELATIVE: join(".config", "cinnamon"),
 	SHARE_DIR_ABSOLUTE: join(ENV.HOME, ".local", "share", "cinnamon"),
 	CONFIG_DIR_ABSOLUTE: join(ENV.HOME, ".config", "cinnamon"),
+	SYSTEM_SHARE_DIR: "/usr/share/cinnamon", // spices shipped with Cinnamon or installed system-wide
 };
 
 const THEME_PATHS = {
@@ -82,14 +136,306 @@ const FONT_PATHS = {
 	SYSTEM_FONTS_DIR: "/usr/share/fonts",
 };
 
-const DCONF_SETTINGS_FILE = "org.cinnamon.dconf.ini"; // file to store dconf settings
+const DCONF_ROOT = "/org/cinnamon/";
+const DCONF_DUMP_SUFFIX = ".dconf.ini"; // each dconf root is stored as e.g. org.cinnamon.dconf.ini
+const DEFAULT_DCONF_ROOTS = [
+	DCONF_ROOT,
+	"/org/nemo/",
+	"/org/gnome/desktop/interface/",
+	"/org/x/apps/",
+	"/org/gnome/terminal/",
+	"/org/gnome/desktop/screensaver/",
+];
+const EXPORT_METADATA_FILE = "cinnamon-profile-manager-metadata.json";
+const ARCHIVE_MANIFEST_FILE = "cinnamon-profile-manager-manifest.json"; // sizes and checksums of every file
+const SPICE_MANIFEST_FILE = "spices.json"; // spices a profile depends on, recorded at capture time
+const SPICE_KINDS = ["applets", "desklets", "extensions"] as const;
+// spice settings that usually hold credentials, as `<uuid>/<setting>` globs matched case-insensitively
+const BUILTIN_REDACTION_RULES = [
+	"*/*apikey*",
+	"*/*api-key*",
+	"*/*api_key*",
+	"*/*token*",
+	"*/*password*",
+	"*/*passwd*",
+	"*/*secret*",
+	"*/*username*",
+	"*/*user-name*",
+	"*/*login*",
+	"*/*email*",
+];
+// the on/off switches of ComponentOptions
+const COMPONENT_FLAGS = [
+	"userThemes",
+	"systemThemes",
+	"userIcons",
+	"userIconsAlt",
+	"systemIcons",
+	"userFonts",
+	"userFontsAlt",
+	"systemFonts",
+	"dconf",
+] as const;
+// environment variables auto rules may test, matching the --allow-env list of the deno tasks
+const AUTO_RULE_ENV_VARIABLES = ["XDG_*", "CINNAMON_PROFILE_*"];
+const WEEKDAYS = ["mon", "tue", "wed", "thu", "fri", "sat", "sun"];
+const SECRET_VALUE_PATTERN = /^[A-Za-z0-9+/=_.-]{20,}$/; // long unbroken strings, as API keys and tokens are
+// dconf keys shown by `show`, first one found wins
+const APPEARANCE_KEYS: { label: string; keys: string[] }[] = [
+	{
+		label: "GTK theme",
+		keys: [
+			"/org/cinnamon/desktop/interface/gtk-theme",
+			"/org/gnome/desktop/interface/gtk-theme",
+		],
+	},
+	{
+		label: "Icon theme",
+		keys: [
+			"/org/cinnamon/desktop/interface/icon-theme",
+			"/org/gnome/desktop/interface/icon-theme",
+		],
+	},
+	{
+		label: "Cursor theme",
+		keys: [
+			"/org/cinnamon/desktop/interface/cursor-theme",
+			"/org/gnome/desktop/interface/cursor-theme",
+		],
+	},
+	{ label: "Desktop theme", keys: ["/org/cinnamon/theme/name"] },
+	{
+		label: "Window theme",
+		keys: ["/org/cinnamon/desktop/wm/preferences/theme"],
+	},
+	{
+		label: "Interface font",
+		keys: [
+			"/org/cinnamon/desktop/interface/font-name",
+			"/org/gnome/desktop/interface/font-name",
+		],
+	},
+	{
+		label: "Document font",
+		keys: ["/org/gnome/desktop/interface/document-font-name"],
+	},
+	{
+		label: "Monospace font",
+		keys: ["/org/gnome/desktop/interface/monospace-font-name"],
+	},
+	{
+		label: "Title bar font",
+		keys: ["/org/cinnamon/desktop/wm/preferences/titlebar-font"],
+	},
+];
+const HOME_PLACEHOLDER = "${HOME}"; // stands for the home directory in exported profiles
+// absolute paths below common top-level directories, as found in settings (also inside file:// URIs)
+const FILESYSTEM_PATH_PATTERN =
+	/(?<![\w.-])\/(?:home|root|media|mnt|opt|srv|usr|var|tmp|snap)\/[^\s'"`,;:)\]}>]+/g;
+const SNAPSHOT_EXTENSION = ".snapshot.json"; // profiles and backups stored in the object store
+const PROFILES_SCHEMA_VERSION = 3; // version of the profiles.json document
+
+// theme/icon/font directories inside an archive and where they live on the system
+const ASSET_COMPONENT_DIRS: {
+	archiveDir: string;
+	livePath: string;
+	option: AssetComponentOption;
+}[] = [
+	{
+		archiveDir: "user-themes",
+		livePath: THEME_PATHS.USER_THEMES_DIR,
+		option: "userThemes",
+	},
+	{
+		archiveDir: "system-themes",
+		livePath: THEME_PATHS.SYSTEM_THEMES_DIR,
+		option: "systemThemes",
+	},
+	{
+		archiveDir: "user-icons",
+		livePath: ICON_PATHS.USER_ICONS_DIR,
+		option: "userIcons",
+	},
+	{
+		archiveDir: "user-icons-alt",
+		livePath: ICON_PATHS.USER_ICONS_ALT_DIR,
+		option: "userIconsAlt",
+	},
+	{
+		archiveDir: "system-icons",
+		livePath: ICON_PATHS.SYSTEM_ICONS_DIR,
+		option: "systemIcons",
+	},
+	{
+		archiveDir: "user-fonts",
+		livePath: FONT_PATHS.USER_FONTS_DIR,
+		option: "userFonts",
+	},
+	{
+		archiveDir: "user-fonts-home",
+		livePath: FONT_PATHS.USER_FONTS_ALT_DIR,
+		option: "userFontsAlt",
+	},
+	{
+		archiveDir: "system-fonts",
+		livePath: FONT_PATHS.SYSTEM_FONTS_DIR,
+		option: "systemFonts",
+	},
+];
+
+// shorthands accepted by export --exclude, besides the archive directories themselves and "dconf"
+const EXPORT_EXCLUDE_GROUPS: Record<string, string[]> = {
+	themes: ["user-themes", "system-themes"],
+	icons: ["user-icons", "user-icons-alt", "system-icons"],
+	fonts: ["user-fonts", "user-fonts-home", "system-fonts"],
+};
+
+// entries an imported archive may contain at its top level, besides dconf dumps
+const IMPORT_TOP_LEVEL_DIRS = [
+	"share",
+	"config",
+	...ASSET_COMPONENT_DIRS.map((component) => component.archiveDir),
+];
+const IMPORT_TOP_LEVEL_FILES = [
+	EXPORT_METADATA_FILE,
+	ARCHIVE_MANIFEST_FILE,
+	SPICE_MANIFEST_FILE,
+];
+const IMPORT_LIMITS = {
+	MAX_ENTRIES: 200_000,
+	MAX_FILE_SIZE: 512 * 1024 ** 2,
+	MAX_TOTAL_SIZE: 8 * 1024 ** 3, // system icon themes and fonts can be large
+};
+
+// commands that only read profiles and backups, so they run without the lock
+const READ_ONLY_COMMANDS = [
+	"list",
+	"show",
+	"diff",
+	"status",
+	"verify",
+	"list-backups",
+	"schedule status",
+	"auto list",
+];
+const LOCK_POLL_INTERVAL_MS = 500;
+const LOCK_STALE_GRACE_MS = 5000; // an unreadable lock younger than this may still be being written
+
+// set from the global command-line options before a command runs
+const RUNTIME_FLAGS = {
+	assumeYes: false,
+	nonInteractive: false,
+	json: false,
+};
+
+// the document printed on exit in --json mode
+const JSON_OUTPUT: {
+	command: string | null;
+	data: Record<string, unknown>;
+	errors: string[];
+} = { command: null, data: {}, errors: [] };
+
+const DEFAULT_CONFIG: ManagerConfig = {
+	retention: {
+		manual: { keepLast: 10, keepDaily: 7, keepWeekly: 4, keepMonthly: 6 },
+		auto: { keepLast: 5, keepDaily: 5, keepWeekly: 3, keepMonthly: 2 },
+		scheduled: {
+			keepLast: 24,
+			keepDaily: 7,
+			keepWeekly: 4,
+			keepMonthly: 3,
+		},
+	},
+	dconfRoots: DEFAULT_DCONF_ROOTS,
+	dconfKeyFilters: { include: [], exclude: [] },
+	redactOnExport: true,
+	redactionRules: [],
+	watchQuietPeriodSeconds: 10,
+	autoRules: [],
+};
 
 // --- type definitions ---
 interface Profile {
 	name: string;
 	active: boolean;
-	lastModified: string; // ISOString
-	zipFile: string;
+	zipFile: string; // snapshot manifest (or zip file for profiles not yet migrated)
+	description: string;
+	tags: string[];
+	createdAt: string; // ISOString
+	updatedAt: string; // ISOString, last time the captured settings changed
+	lastActivatedAt: string | null; // ISOString
+	components: ComponentOptions | null; // null if captured before this was recorded
+	cinnamonVersion: string | null;
+	dconfKeyFilters: Partial<DconfKeyFilters> | null; // overrides the configured lists
+}
+
+interface ZipEntry {
+	name: string;
+	method: number; // 0 = stored, 8 = deflate
+	crc32: number;
+	compressedSize: number;
+	size: number;
+	localHeaderOffset: number;
+	mode: number | null; // unix permission bits, if recorded
+	isDirectory: boolean;
+	isSymlink: boolean;
+	isSpecial: boolean; // device file, FIFO or socket
+	encrypted: boolean;
+}
+
+interface SnapshotEntry {
+	path: string; // relative to the root of the snapshot
+	type: "file" | "dir" | "symlink";
+	mode?: number;
+	hash?: string; // SHA-256 of the content, for files
+	size?: number; // for files
+	target?: string; // for symlinks
+}
+
+interface SnapshotManifest {
+	format: "cinnamon-profile-snapshot";
+	version: number;
+	createdAt: string; // ISOString
+	entries: SnapshotEntry[];
+}
+
+interface ArchiveManifestFile {
+	path: string; // relative to the root of the archive
+	size: number;
+	sha256: string;
+}
+
+interface ArchiveManifest {
+	format: "cinnamon-profile-archive";
+	formatVersion: number;
+	toolVersion: string;
+	createdAt: string; // ISOString
+	components: ComponentOptions | null; // what was captured, if known
+	files: ArchiveManifestFile[];
+}
+
+interface VerifyResult {
+	files: number; // files read from the archive
+	hasManifest: boolean;
+	problems: string[];
+}
+
+/**
+ * A spice recorded in a profile's manifest. Themes are listed by directory name in place of a uuid.
+ */
+interface SpiceEntry {
+	uuid: string;
+	type: (typeof SPICE_KINDS)[number] | "themes";
+	name: string | null; // from metadata.json
+	version: string | null; // from metadata.json
+	instances: string[]; // enabled entries from dconf; empty if installed but unused
+	bundled: boolean; // its code is part of the archive
+}
+
+interface SpiceManifest {
+	version: number;
+	createdAt: string; // ISOString
+	spices: SpiceEntry[];
 }
 
 interface ComponentOptions {
@@ -102,6 +448,19 @@ interface ComponentOptions {
 	userFontsAlt: boolean;
 	systemFonts: boolean;
 	dconf: boolean;
+	dconfRoots?: string[]; // captured or restored dconf paths (default: configured / all in the archive)
+	dconfKeyFilters?: DconfKeyFilters; // keys outside the filters are neither captured nor changed
+	selection?: RestoreSelection; // restore only these parts, leaving everything else untouched
+}
+
+/**
+ * Parts of an archive picked with --only, --only-dconf and --only-file.
+ * `targets` are names from RESTORE_TARGETS; they are resolved into patterns once the archive is staged.
+ */
+interface RestoreSelection {
+	targets: string[];
+	dconf: string[]; // globs matched against absolute dconf key paths
+	files: string[]; // globs matched against archive paths (share/..., config/...)
 }
 
 interface CommandOptions {
@@ -114,7 +473,87 @@ interface CommandOptions {
 	userFontsHome?: boolean;
 	addSystemFonts?: boolean;
 	dconf?: boolean;
-	noBackup?: boolean;
+	backup?: boolean; // false with --no-backup
+	confirmed?: boolean; // the switch was already confirmed, e.g. by an auto rule
+	description?: string;
+	tag?: string[];
+	dconfPath?: string[];
+	includeKey?: string[];
+	excludeKey?: string[];
+	only?: string[];
+	onlyDconf?: string[];
+	onlyFile?: string[];
+	scheduled?: boolean;
+}
+
+interface LockInfo {
+	pid: number;
+	command: string;
+	startedAt: string; // ISOString
+}
+
+interface RestoreJournal {
+	operation: string; // command line of the run that started it
+	pid: number;
+	startedAt: string; // ISOString
+	source: string; // archive being applied
+	rollbackFile: string | null; // snapshot of the settings from before the change
+	ownsRollbackFile: boolean; // rollbackFile was taken only for this operation
+	components: ComponentOptions;
+	completedSteps: string[];
+	currentStep: string | null;
+	createdPaths?: string[]; // paths the restore added, removed again on rollback
+}
+
+interface RestoreStep {
+	name: string;
+	run: () => Promise<void>;
+	mergesInto?: { stagedDir: string; liveDir: string }[]; // directories the step adds files to
+}
+
+interface ProfilesDatabase {
+	schemaVersion: number;
+	profiles: Profile[];
+}
+
+interface QuarantinedProfile {
+	quarantinedAt: string; // ISOString
+	reason: string;
+	entry: unknown;
+}
+
+interface ListOptions {
+	tag?: string[];
+	sort?: "name" | "created" | "updated" | "activated";
+}
+
+interface MetaOptions {
+	description?: string;
+	tag?: string[];
+	removeTag?: string[];
+	clearTags?: boolean;
+	includeKey?: string[];
+	excludeKey?: string[];
+	resetKeyFilters?: boolean;
+}
+
+interface ArchiveEntry {
+	path: string; // as stored in the archive
+	type: "file" | "dir" | "symlink" | "special";
+	size: number;
+	mode: number | null;
+	target?: string; // for symlinks
+}
+
+interface ExportOptions {
+	output?: string; // file, directory, or "-" for stdout
+	exclude?: string[];
+	redact?: boolean; // default from config
+}
+
+interface ImportOptions {
+	name?: string;
+	onConflict?: "overwrite" | "rename" | "abort";
 }
 
 interface CommandResult {
@@ -128,6 +567,105 @@ interface CommanderError extends Error {
 	code?: string;
 }
 
+/**
+ * How many backups to keep. Each bucket keeps the newest backup of its most
+ * recent N days/weeks/months; a backup is kept if any rule keeps it. 0 disables a rule.
+ */
+interface RetentionPolicy {
+	keepLast: number;
+	keepDaily: number;
+	keepWeekly: number;
+	keepMonthly: number;
+}
+
+interface ManagerConfig {
+	retention: {
+		manual: RetentionPolicy;
+		auto: RetentionPolicy;
+		scheduled: RetentionPolicy;
+	};
+	dconfRoots: string[]; // dconf paths captured unless --dconf-path is given
+	dconfKeyFilters: DconfKeyFilters;
+	redactOnExport: boolean; // default for export --redact / --no-redact
+	redactionRules: string[]; // added to BUILTIN_REDACTION_RULES
+	watchQuietPeriodSeconds: number; // how long `watch` waits for changes to settle before saving
+	autoRules: AutoRule[]; // evaluated by `auto apply`
+}
+
+/**
+ * A rule for `auto apply`. All conditions given must hold; a rule without
+ * conditions always matches, which makes it a fallback.
+ */
+interface AutoRule {
+	name?: string;
+	profile: string;
+	priority?: number; // higher is evaluated first, ties in config order
+	hostname?: string; // glob
+	weekdays?: string[]; // "mon" ... "sun"
+	time?: string; // "HH:MM-HH:MM" local time, may wrap past midnight
+	env?: Record<string, string>; // variable (one of AUTO_RULE_ENV_VARIABLES) -> glob of its value, "*" only requires it to be set
+	fileExists?: string; // "~/" is the home directory
+	command?: string; // run with `sh -c`, matches if it exits with 0
+	output?: string; // glob the trimmed output of `command` must match instead
+}
+
+interface SecretFinding {
+	setting: string; // <uuid>/<setting key>
+	file: string; // relative to the archive
+	reason: string;
+	redacted: boolean;
+}
+
+/**
+ * Glob patterns matched against absolute dconf key paths. A key travels with a
+ * profile if it matches an include pattern (or there are none) and no exclude pattern.
+ */
+interface DconfKeyFilters {
+	include: string[];
+	exclude: string[];
+}
+
+interface BackupFile {
+	filename: string;
+	date: Date | null;
+	fullPath: string;
+	type: "Manual" | "Auto" | "Scheduled";
+}
+
+type AssetComponentOption =
+	| "userThemes"
+	| "systemThemes"
+	| "userIcons"
+	| "userIconsAlt"
+	| "systemIcons"
+	| "userFonts"
+	| "userFontsAlt"
+	| "systemFonts";
+
+type ChangeKind = "added" | "removed" | "changed";
+
+interface DiffReport {
+	a: string;
+	b: string;
+	dconf: {
+		key: string;
+		change: ChangeKind;
+		before?: string;
+		after?: string;
+	}[];
+	files: { path: string; change: ChangeKind; keys?: string[] }[];
+	components: { component: string; entry: string; onlyIn: "a" | "b" }[];
+}
+
+/**
+ * One side of a diff: either an extracted archive or the live desktop.
+ */
+interface DiffSide {
+	label: string;
+	archiveDir: string | null; // null means the live system
+	dconfDumps: Map<string, string>; // dump content by dconf root
+}
+
 // --- helper functions ---
 
 /**
@@ -193,6 +731,122 @@ async function getCommandPath(commandName: string): Promise<string | null> {
 	return null;
 }
 
+/**
+ * Whether the user can be asked for input.
+ */
+function canPrompt(): boolean {
+	return !RUNTIME_FLAGS.nonInteractive && Deno.stdin.isTerminal();
+}
+
+/**
+ * Exits with an error explaining that input was required but cannot be asked for.
+ */
+function failInputRequired(what: string, hint: string): never {
+	console.error(
+		chalk.red(
+			`Error: ${what} requires input, but running non-interactively. ${hint}`,
+		),
+	);
+	Deno.exit(1);
+}
+
+/**
+ * Asks the user to confirm an action.
+ * With --yes the action is confirmed without asking, unless `unattendedAnswer`
+ * says otherwise (used for risky follow-up questions such as continuing
+ * without a backup). Without a way to ask, it fails instead of hanging.
+ */
+function confirmAction(
+	message: string,
+	unattendedAnswer?: boolean,
+): boolean {
+	if (!RUNTIME_FLAGS.assumeYes && canPrompt()) {
+		return confirm(message);
+	}
+	if (unattendedAnswer === undefined && !RUNTIME_FLAGS.assumeYes) {
+		console.log(message);
+		failInputRequired(
+			"This action",
+			"Re-run with --yes to confirm it automatically.",
+		);
+	}
+	const answer = unattendedAnswer ?? RUNTIME_FLAGS.assumeYes;
+	console.log(`${message} ${chalk.gray(answer ? "yes" : "no")}`);
+	return answer;
+}
+
+/**
+ * Switches to --json mode: all human-readable output goes to stderr (without
+ * colors) and a single JSON document describing the outcome is written to
+ * stdout when the process exits, however it exits.
+ */
+function enableJsonOutput(): void {
+	RUNTIME_FLAGS.json = true;
+	RUNTIME_FLAGS.nonInteractive = true; // prompts would corrupt stdout
+	chalk.level = 0;
+
+	const writeStderr = console.error.bind(console);
+	redirectLogsToStderr();
+	console.error = (...args: unknown[]) => {
+		JSON_OUTPUT.errors.push(args.map(String).join(" "));
+		writeStderr(...args);
+	};
+
+	globalThis.addEventListener("unload", () => {
+		const succeeded = (Deno.exitCode ?? 0) === 0;
+		const document = {
+			command: JSON_OUTPUT.command,
+			success: succeeded,
+			...JSON_OUTPUT.data,
+			...(!succeeded && JSON_OUTPUT.errors.length > 0
+				? { error: JSON_OUTPUT.errors.join("\n") }
+				: {}),
+		};
+		const bytes = new TextEncoder().encode(
+			JSON.stringify(document, null, 2) + "\n",
+		);
+		let written = 0;
+		while (written < bytes.length) {
+			written += Deno.stdout.writeSync(bytes.subarray(written));
+		}
+	});
+}
+
+/**
+ * Sends all human-readable output to stderr, leaving stdout for data.
+ */
+function redirectLogsToStderr(): void {
+	const writeStderr = console.error.bind(console);
+	console.log = writeStderr;
+	console.info = writeStderr;
+}
+
+/**
+ * Whether the command line streams an export to stdout (`export <name> --output -`).
+ * This has to be known before anything is printed.
+ */
+function isExportingToStdout(args: string[]): boolean {
+	return args.includes("export") &&
+		args.some((arg, i) =>
+			arg === "--output=-" ||
+			((arg === "--output" || arg === "-o") && args[i + 1] === "-")
+		);
+}
+
+/**
+ * Whether the command line imports a profile piped into stdin (`import -`).
+ */
+function isImportingFromStdin(args: string[]): boolean {
+	return args.includes("import") && args.includes("-");
+}
+
+/**
+ * Adds fields to the JSON document of the current command (--json mode only).
+ */
+function setJsonResult(data: Record<string, unknown>): void {
+	Object.assign(JSON_OUTPUT.data, data);
+}
+
 /**
  * Ensures application directories and profile file exist.
  */
@@ -211,12 +865,21 @@ async function ensureAppDirectories(): Promise<void> {
 		console.log(
 			chalk.blue(`Creating profiles file: ${APP_PATHS.PROFILES_DB_FILE}`),
 		);
+		await writeProfiles([]);
+	}
+	if (!(await exists(APP_PATHS.CONFIG_FILE))) {
 		await Deno.writeTextFile(
-			APP_PATHS.PROFILES_DB_FILE,
-			JSON.stringify([], null, 2),
+			APP_PATHS.CONFIG_FILE,
+			JSON.stringify(DEFAULT_CONFIG, null, 2),
 		);
 	}
-	for (const dir of [APP_PATHS.BACKUP_DIR, APP_PATHS.AUTO_BACKUP_DIR]) {
+	for (
+		const dir of [
+			APP_PATHS.BACKUP_DIR,
+			APP_PATHS.AUTO_BACKUP_DIR,
+			APP_PATHS.SCHEDULED_BACKUP_DIR,
+		]
+	) {
 		if (!(await exists(dir))) {
 			await Deno.mkdir(dir, { recursive: true });
 		}
@@ -224,1313 +887,6645 @@ async function ensureAppDirectories(): Promise<void> {
 }
 
 /**
- * Reads profiles from the JSON database file.
+ * Fills in metadata fields missing from entries written by older versions.
  */
-async function readProfiles(): Promise<Profile[]> {
-	if (!(await exists(APP_PATHS.PROFILES_DB_FILE))) {
-		return [];
-	}
-	const content = await Deno.readTextFile(APP_PATHS.PROFILES_DB_FILE);
-	try {
-		const profiles = JSON.parse(content);
-		if (!Array.isArray(profiles)) {
-			throw new Error("Profiles data is not an array.");
-		}
-		return profiles as Profile[];
-	} catch (e) {
-		console.error(
-			chalk.red(
-				`Error parsing profiles.json: ${
-					e instanceof Error ? e.message : "Unknown error"
-				}.`,
-			),
-		);
-		console.warn(
-			chalk.yellow(
-				`Backing up corrupted profiles.json and creating a new empty one.`,
-			),
-		);
-		try {
-			await Deno.copyFile(
-				APP_PATHS.PROFILES_DB_FILE,
-				`${APP_PATHS.PROFILES_DB_FILE}.corrupted-${Date.now()}`,
-			);
-		} catch (backupError) {
-			console.error(
-				chalk.red(
-					`Failed to backup corrupted profiles.json: ${
-						backupError instanceof Error
-							? backupError.message
-							: "Unknown error"
-					}`,
-				),
-			);
-		}
-		await Deno.writeTextFile(
-			APP_PATHS.PROFILES_DB_FILE,
-			JSON.stringify([], null, 2),
-		);
-		return [];
+function normalizeProfile(
+	raw: Partial<Profile> & { lastModified?: string },
+): Profile {
+	const fallbackDate = raw.lastModified ?? new Date(0).toISOString();
+	return {
+		name: raw.name ?? "",
+		active: raw.active ?? false,
+		zipFile: raw.zipFile ?? "",
+		description: raw.description ?? "",
+		tags: raw.tags ?? [],
+		createdAt: raw.createdAt ?? fallbackDate,
+		updatedAt: raw.updatedAt ?? fallbackDate,
+		lastActivatedAt: raw.lastActivatedAt ?? null,
+		components: raw.components ?? null,
+		cinnamonVersion: raw.cinnamonVersion ?? null,
+		dconfKeyFilters: raw.dconfKeyFilters ?? null,
+	};
+}
+
+/**
+ * Returns the version of the running Cinnamon installation, if it can be determined.
+ */
+async function getCinnamonVersion(): Promise<string | null> {
+	const result = await executeCommand("cinnamon", ["--version"]);
+	if (!result.success) {
+		return null;
 	}
+	return result.stdout.trim().replace(/^Cinnamon\s+/i, "") || null;
 }
 
 /**
- * Writes profiles to the JSON database file.
+ * Trims and de-duplicates tags given on the command line.
  */
-async function writeProfiles(profiles: Profile[]): Promise<void> {
-	await Deno.writeTextFile(
-		APP_PATHS.PROFILES_DB_FILE,
-		JSON.stringify(profiles, null, 2),
-	);
+function normalizeTags(tags: string[]): string[] {
+	return [...new Set(tags.map((t) => t.trim()).filter((t) => t !== ""))];
 }
 
 /**
- * Executes an action within a temporary directory, ensuring cleanup.
+ * Commander helper for repeatable options.
  */
-async function withTempDir<T>(
-	options: Deno.MakeTempOptions,
-	action: (tempDir: string) => Promise<T>,
-): Promise<T> {
-	const tempDir = await Deno.makeTempDir(options);
-	try {
-		return await action(tempDir);
-	} finally {
-		await Deno.remove(tempDir, { recursive: true });
-	}
+function collectOption(value: string, previous: string[] = []): string[] {
+	return [...previous, value];
 }
 
 /**
- * Copies the contents of a source directory to a destination directory.
+ * Writes a file via a temporary file and a rename, so readers never see a partial file.
  */
-async function copyDirectoryContents(
-	sourceDir: string,
-	destinationDir: string,
+async function writeFileAtomic(
+	path: string,
+	data: string | Uint8Array,
 ): Promise<void> {
-	if (!(await exists(sourceDir))) {
-		console.warn(
-			chalk.yellow(
-				`Warning: Source directory ${sourceDir} does not exist. Skipping copy of its contents.`,
-			),
-		);
-		return;
-	}
-	await Deno.mkdir(destinationDir, { recursive: true });
-	for await (const entry of Deno.readDir(sourceDir)) {
-		const sourcePath = join(sourceDir, entry.name);
-		const destinationPath = join(destinationDir, entry.name);
-		try {
-			await copy(sourcePath, destinationPath, {
-				overwrite: true,
-			});
-		} catch (error) {
-			console.warn(
-				chalk.yellow(
-					`Warning: Failed to copy ${sourcePath} to ${destinationPath}: ${
-						error instanceof Error ? error.message : "Unknown error"
-					}. Skipping this file/directory.`,
-				),
-			);
+	const tempPath = `${path}.tmp-${crypto.randomUUID()}`;
+	try {
+		if (typeof data === "string") {
+			await Deno.writeTextFile(tempPath, data);
+		} else {
+			await Deno.writeFile(tempPath, data);
 		}
+		await Deno.rename(tempPath, path);
+	} catch (e) {
+		await Deno.remove(tempPath).catch(() => {});
+		throw e;
 	}
 }
 
 /**
- * Zips all contents of a directory.
+ * Reads the lock file, returning null if it is missing or unreadable.
  */
-async function zipDirectoryContents(
-	sourceDir: string,
-	zipFilePath: string,
-): Promise<boolean> {
-	// arguments for zip: -r (recursive), -q (quiet), zipFilePath (target archive), "." (current dir contents)
-	const args = ["-rq", zipFilePath, "."];
+async function readLockInfo(): Promise<LockInfo | null> {
+	try {
+		const info = JSON.parse(await Deno.readTextFile(APP_PATHS.LOCK_FILE));
+		return Number.isInteger(info.pid) ? info as LockInfo : null;
+	} catch (_e) {
+		return null;
+	}
+}
 
-	let isEmpty = true;
+function isProcessRunning(pid: number): boolean {
 	try {
-		for await (const _entry of Deno.readDir(sourceDir)) {
-			isEmpty = false;
-			break;
-		}
-	} catch (e) {
-		// if sourceDir doesn't exist, Deno.readDir will throw.
-		console.error(
-			chalk.red(
-				`Error reading source directory ${sourceDir} for zipping: ${
-					e instanceof Error ? e.message : String(e)
-				}`,
-			),
-		);
+		Deno.statSync(`/proc/${pid}`);
+		return true;
+	} catch (_e) {
 		return false;
 	}
+}
 
-	if (isEmpty) {
-		console.warn(
-			chalk.yellow(
-				`Warning: Source directory ${sourceDir} for zipping is empty. Archive will be empty.`,
-			),
-		);
-		// allow creating an empty zip, but it might indicate an upstream issue.
+/**
+ * Checks whether the lock was left behind by a process that no longer runs.
+ */
+async function isLockStale(holder: LockInfo | null): Promise<boolean> {
+	if (holder) {
+		return !isProcessRunning(holder.pid);
 	}
+	try {
+		const { mtime } = await Deno.stat(APP_PATHS.LOCK_FILE);
+		return mtime !== null &&
+			Date.now() - mtime.getTime() > LOCK_STALE_GRACE_MS;
+	} catch (_e) {
+		return false; // removed in the meantime, just try again
+	}
+}
 
-	const zipResult = await executeCommand("zip", args, { cwd: sourceDir });
-
-	if (!zipResult.success) {
-		console.error(
-			chalk.red(`Error: Failed to create archive at ${zipFilePath}.`),
+/**
+ * Takes the advisory lock that keeps two invocations from changing profiles at the same time.
+ * Fails naming the process holding the lock, or waits for it to finish if `wait` is set.
+ */
+async function acquireLock(wait: boolean): Promise<void> {
+	const info: LockInfo = {
+		pid: Deno.pid,
+		command: Deno.args.join(" "),
+		startedAt: new Date().toISOString(),
+	};
+	let announcedWait = false;
+	while (true) {
+		try {
+			await Deno.writeTextFile(
+				APP_PATHS.LOCK_FILE,
+				JSON.stringify(info, null, 2),
+				{ createNew: true },
+			);
+			globalThis.addEventListener("unload", releaseLock);
+			return;
+		} catch (e) {
+			if (!(e instanceof Deno.errors.AlreadyExists)) throw e;
+		}
+
+		const holder = await readLockInfo();
+		if (await isLockStale(holder)) {
+			// only remove the lock we inspected, not one another process just took
+			const current = await readLockInfo();
+			if (current?.pid === holder?.pid) {
+				console.warn(
+					chalk.yellow(
+						`Removing stale lock left by ${
+							holder ? `PID ${holder.pid}` : "an unknown process"
+						}.`,
+					),
+				);
+				await Deno.remove(APP_PATHS.LOCK_FILE).catch(() => {});
+			}
+			continue;
+		}
+
+		const holderDescription = holder
+			? `PID ${holder.pid}, running "${holder.command}" since ${
+				new Date(holder.startedAt).toLocaleString()
+			}`
+			: "unknown PID";
+		if (!wait) {
+			console.error(
+				chalk.red(
+					`Error: Another ${PROGRAM_NAME} process is running (${holderDescription}).`,
+				),
+			);
+			console.error(
+				chalk.gray(
+					`Use --wait to wait for it to finish, or remove ${APP_PATHS.LOCK_FILE} if that process is not a ${PROGRAM_NAME}.`,
+				),
+			);
+			Deno.exit(1);
+		}
+		if (!announcedWait) {
+			console.log(
+				chalk.gray(
+					`Waiting for another ${PROGRAM_NAME} process to finish (${holderDescription})...`,
+				),
+			);
+			announcedWait = true;
+		}
+		await new Promise((resolve) =>
+			setTimeout(resolve, LOCK_POLL_INTERVAL_MS)
 		);
-		console.error(chalk.gray(`zip stderr: ${zipResult.stderr}`));
-		return false;
 	}
-	return true;
 }
 
 /**
- * Unzips an archive to a specified directory.
+ * Removes the lock file if this process holds it. Runs on exit.
  */
-async function unzipArchive(
-	zipFilePath: string,
-	destinationDir: string,
-): Promise<boolean> {
-	const unzipResult = await executeCommand("unzip", [
-		"-oq",
-		zipFilePath,
-		"-d",
-		destinationDir,
-	]);
-	if (!unzipResult.success) {
-		console.error(
-			chalk.red(`Error: Failed to extract archive ${zipFilePath}.`),
-		);
-		console.error(chalk.gray(`unzip stderr: ${unzipResult.stderr}`));
-		return false;
+function releaseLock(): void {
+	try {
+		const info = JSON.parse(Deno.readTextFileSync(APP_PATHS.LOCK_FILE));
+		if (info.pid === Deno.pid) {
+			Deno.removeSync(APP_PATHS.LOCK_FILE);
+		}
+	} catch (_e) {
+		/* already gone, e.g. after reset */
 	}
-	return true;
 }
 
 /**
- * Print a styled header for the application
+ * Migrations of the profiles database, keyed by the schema version they upgrade from.
+ * Schema 1 is the bare array of profiles written by earlier versions.
  */
-function printHeader(): void {
-	console.log(chalk.cyan("Cinnamon Profile Manager") + " v" + VERSION);
-	console.log(
-		chalk.gray("Manage and switch between Cinnamon desktop profiles"),
-	);
-	console.log("");
+const PROFILES_MIGRATIONS: Record<number, (data: unknown) => unknown> = {
+	1: (data) => ({
+		schemaVersion: 2,
+		profiles: (data as unknown[]).map((entry) =>
+			isPlainObject(entry) ? normalizeProfile(entry) : entry
+		),
+	}),
+	2: (data) => ({
+		schemaVersion: 3,
+		profiles: (data as { profiles: unknown[] }).profiles.map((entry) =>
+			isPlainObject(entry)
+				? { ...entry, dconfKeyFilters: entry.dconfKeyFilters ?? null }
+				: entry
+		),
+	}),
+};
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+	return typeof value === "object" && value !== null &&
+		!Array.isArray(value);
 }
 
 /**
- * List available profiles
+ * Returns why a database entry is not a valid profile, or null if it is.
+ * Only the name, archive path and dates are required; other fields may be
+ * missing (or null) and get their defaults from normalizeProfile.
  */
-async function listProfiles(): Promise<void> {
-	console.log(chalk.yellow("Available Profiles:"));
-	const profiles = await readProfiles();
-
-	if (profiles.length === 0) {
-		console.log(
-			chalk.gray(
-				"No profiles created yet. Use 'create <name>' to make one.",
-			),
-		);
-		return;
+function validateProfileEntry(entry: unknown): string | null {
+	if (!isPlainObject(entry)) return "entry is not an object";
+	if (typeof entry.name !== "string" || entry.name.trim() === "") {
+		return "missing or empty name";
+	}
+	if (typeof entry.zipFile !== "string" || entry.zipFile === "") {
+		return "missing archive path";
+	}
+	for (const field of ["createdAt", "updatedAt"]) {
+		const value = entry[field];
+		if (typeof value !== "string" || isNaN(new Date(value).getTime())) {
+			return `invalid ${field}`;
+		}
+	}
+	if (entry.active != null && typeof entry.active !== "boolean") {
+		return "invalid active flag";
+	}
+	if (entry.description != null && typeof entry.description !== "string") {
+		return "invalid description";
+	}
+	if (
+		entry.tags != null &&
+		(!Array.isArray(entry.tags) ||
+			!entry.tags.every((t) => typeof t === "string"))
+	) {
+		return "invalid tags";
+	}
+	if (
+		entry.lastActivatedAt != null &&
+		(typeof entry.lastActivatedAt !== "string" ||
+			isNaN(new Date(entry.lastActivatedAt).getTime()))
+	) {
+		return "invalid lastActivatedAt";
 	}
+	if (entry.components != null && !isPlainObject(entry.components)) {
+		return "invalid components";
+	}
+	if (
+		entry.cinnamonVersion != null &&
+		typeof entry.cinnamonVersion !== "string"
+	) {
+		return "invalid cinnamonVersion";
+	}
+	if (entry.dconfKeyFilters != null) {
+		const filters = entry.dconfKeyFilters;
+		if (
+			!isPlainObject(filters) ||
+			![filters.include, filters.exclude].every((list) =>
+				list === undefined ||
+				(Array.isArray(list) &&
+					list.every((pattern) => typeof pattern === "string"))
+			)
+		) {
+			return "invalid dconfKeyFilters";
+		}
+	}
+	return null;
+}
 
-	const table = new Table()
-		.header(["Name", "Status", "Last Modified"])
-		.padding(2)
-		.border(true);
-	for (const profile of profiles) {
-		table.push([
-			profile.name,
-			profile.active ? chalk.green("Active") : "Inactive",
-			new Date(profile.lastModified).toLocaleString(),
-		]);
+/**
+ * Moves invalid database entries to the quarantine file so they can be repaired by hand.
+ */
+async function quarantineProfiles(
+	entries: QuarantinedProfile[],
+): Promise<void> {
+	let quarantined: QuarantinedProfile[] = [];
+	if (await exists(APP_PATHS.PROFILES_QUARANTINE_FILE)) {
+		try {
+			const existing = JSON.parse(
+				await Deno.readTextFile(APP_PATHS.PROFILES_QUARANTINE_FILE),
+			);
+			if (Array.isArray(existing)) quarantined = existing;
+		} catch (_e) {
+			/* start a new quarantine file if the old one is unreadable */
+		}
 	}
-	console.log(table.toString());
-	console.log(
-		chalk.gray(`Use ${PROGRAM_NAME} switch <name> to switch profiles`),
+	quarantined.push(...entries);
+	await writeFileAtomic(
+		APP_PATHS.PROFILES_QUARANTINE_FILE,
+		JSON.stringify(quarantined, null, 2),
 	);
 }
 
 /**
- * List all available backup files
+ * Prints a fatal profiles database error and exits.
  */
-async function listBackups(): Promise<void> {
-	console.log(chalk.yellow("Available Backup Files:"));
+function failProfilesDatabase(message: string, hint: string): never {
+	console.error(chalk.red(`Error: ${message}`));
+	console.error(chalk.gray(hint));
+	Deno.exit(1);
+}
 
-	if (
-		!(await exists(APP_PATHS.BACKUP_DIR)) &&
-		!(await exists(APP_PATHS.AUTO_BACKUP_DIR))
+/**
+ * Reads profiles from the JSON database file.
+ */
+async function readProfiles(): Promise<Profile[]> {
+	if (!(await exists(APP_PATHS.PROFILES_DB_FILE))) {
+		return [];
+	}
+	const content = await Deno.readTextFile(APP_PATHS.PROFILES_DB_FILE);
+	let data: unknown;
+	try {
+		data = JSON.parse(content);
+	} catch (e) {
+		failProfilesDatabase(
+			`Could not parse ${APP_PATHS.PROFILES_DB_FILE}: ${
+				e instanceof Error ? e.message : "Unknown error"
+			}.`,
+			"The file was left untouched. Repair it by hand, or move it aside to start with an empty profile list (profile archives are kept).",
+		);
+	}
+
+	let schemaVersion: number;
+	if (Array.isArray(data)) {
+		schemaVersion = 1;
+	} else if (
+		isPlainObject(data) && Number.isInteger(data.schemaVersion) &&
+		Array.isArray(data.profiles)
 	) {
-		console.log(
-			chalk.gray("No backup directories found. No backups available."),
+		schemaVersion = data.schemaVersion as number;
+	} else {
+		failProfilesDatabase(
+			`${APP_PATHS.PROFILES_DB_FILE} is not a profiles database.`,
+			"The file was left untouched. Repair it by hand, or move it aside to start with an empty profile list (profile archives are kept).",
+		);
+	}
+	if (schemaVersion > PROFILES_SCHEMA_VERSION) {
+		failProfilesDatabase(
+			`${APP_PATHS.PROFILES_DB_FILE} was written by a newer version of ${PROGRAM_NAME} (schema ${schemaVersion}, this version supports up to ${PROFILES_SCHEMA_VERSION}).`,
+			`Please upgrade ${PROGRAM_NAME} to use these profiles.`,
 		);
-		return;
 	}
 
-	const filesWithDates: {
-		filename: string;
-		date: Date | null;
-		fullPath: string;
-		type: string;
-	}[] = [];
-
-	// process manual backups
-	if (await exists(APP_PATHS.BACKUP_DIR)) {
-		for await (const dirEntry of Deno.readDir(APP_PATHS.BACKUP_DIR)) {
-			if (dirEntry.isFile && dirEntry.name.endsWith(".zip")) {
-				let date: Date | null = null;
-				const dateMatch = dirEntry.name.match(
-					/(\d{4}-\d{2}-\d{2}T\d{2}-\d{2}-\d{2}-\d{3}Z)\.zip$/,
-				);
-				if (dateMatch) {
-					const datePart = dateMatch[1];
-					const isoStr = datePart.substring(0, 13) +
-						":" +
-						datePart.substring(14, 16) +
-						":" +
-						datePart.substring(17, 19) +
-						"." +
-						datePart.substring(20, 23) +
-						"Z";
-					try {
-						date = new Date(isoStr);
-						if (isNaN(date.getTime())) {
-							date = null;
-						}
-					} catch (_e) {
-						date = null;
-					}
-				}
-				filesWithDates.push({
-					filename: dirEntry.name,
-					date,
-					fullPath: join(APP_PATHS.BACKUP_DIR, dirEntry.name),
-					type: "Manual",
-				});
-			}
+	const originalVersion = schemaVersion;
+	while (schemaVersion < PROFILES_SCHEMA_VERSION) {
+		const migrate = PROFILES_MIGRATIONS[schemaVersion];
+		if (!migrate) {
+			failProfilesDatabase(
+				`No migration from profiles database schema ${schemaVersion}.`,
+				"The file was left untouched.",
+			);
 		}
+		data = migrate(data);
+		schemaVersion++;
 	}
 
-	// process auto backups
-	if (await exists(APP_PATHS.AUTO_BACKUP_DIR)) {
-		for await (const dirEntry of Deno.readDir(APP_PATHS.AUTO_BACKUP_DIR)) {
-			if (dirEntry.isFile && dirEntry.name.endsWith(".zip")) {
-				let date: Date | null = null;
-				const dateMatch = dirEntry.name.match(
-					/(\d{4}-\d{2}-\d{2}T\d{2}-\d{2}-\d{2}-\d{3}Z)\.zip$/,
-				);
-				if (dateMatch) {
-					const datePart = dateMatch[1];
-					const isoStr = datePart.substring(0, 13) +
-						":" +
-						datePart.substring(14, 16) +
-						":" +
-						datePart.substring(17, 19) +
-						"." +
-						datePart.substring(20, 23) +
-						"Z";
-					try {
-						date = new Date(isoStr);
-						if (isNaN(date.getTime())) {
-							date = null;
-						}
-					} catch (_e) {
-						date = null;
-					}
-				}
-				filesWithDates.push({
-					filename: dirEntry.name,
-					date,
-					fullPath: join(APP_PATHS.AUTO_BACKUP_DIR, dirEntry.name),
-					type: "Auto",
-				});
-			}
+	const profiles: Profile[] = [];
+	const invalid: QuarantinedProfile[] = [];
+	const quarantinedAt = new Date().toISOString();
+	for (const entry of (data as { profiles: unknown[] }).profiles) {
+		let reason = validateProfileEntry(entry);
+		if (
+			reason === null &&
+			profiles.some((p) => p.name === (entry as Profile).name)
+		) {
+			reason = "duplicate name";
+		}
+		if (reason !== null) {
+			invalid.push({ quarantinedAt, reason, entry });
+		} else {
+			profiles.push(normalizeProfile(entry as Partial<Profile>));
 		}
 	}
 
-	if (filesWithDates.length === 0) {
+	if (originalVersion !== schemaVersion) {
+		const backupFile =
+			`${APP_PATHS.PROFILES_DB_FILE}.schema-${originalVersion}.bak`;
+		await Deno.copyFile(APP_PATHS.PROFILES_DB_FILE, backupFile);
 		console.log(
-			chalk.gray("No backup files found in the backup directories."),
+			chalk.gray(
+				`Migrated profiles database from schema ${originalVersion} to ${schemaVersion} (previous version saved as ${
+					basename(backupFile)
+				}).`,
+			),
 		);
-		return;
 	}
-
-	filesWithDates.sort((a, b) => {
-		if (!a.date && !b.date) return a.filename.localeCompare(b.filename);
-		if (!a.date) return 1;
-		if (!b.date) return -1;
-		return b.date.getTime() - a.date.getTime(); // newest first
-	});
-
-	const table = new Table()
-		.header(["Backup File", "Date", "Type", "Path"])
-		.padding(2)
-		.border(true);
-
-	for (const { filename, date, type, fullPath } of filesWithDates) {
-		table.push([
-			filename,
-			date ? date.toLocaleString() : "Unknown",
-			type,
-			fullPath,
-		]);
+	if (invalid.length > 0) {
+		await quarantineProfiles(invalid);
+		for (const { reason, entry } of invalid) {
+			const label = isPlainObject(entry) && typeof entry.name === "string"
+				? `"${entry.name}"`
+				: "(unnamed)";
+			console.warn(
+				chalk.yellow(
+					`Warning: Quarantined invalid profile entry ${label}: ${reason}.`,
+				),
+			);
+		}
+		console.warn(
+			chalk.gray(
+				`Invalid entries were moved to ${APP_PATHS.PROFILES_QUARANTINE_FILE}.`,
+			),
+		);
+	}
+	if (originalVersion !== schemaVersion || invalid.length > 0) {
+		await writeProfiles(profiles);
 	}
+	return profiles;
+}
 
-	console.log(table.toString());
-	console.log(
-		chalk.gray(`Use ${PROGRAM_NAME} restore to restore from a backup`),
+async function writeProfiles(profiles: Profile[]): Promise<void> {
+	const database: ProfilesDatabase = {
+		schemaVersion: PROFILES_SCHEMA_VERSION,
+		profiles,
+	};
+	await writeFileAtomic(
+		APP_PATHS.PROFILES_DB_FILE,
+		JSON.stringify(database, null, 2),
 	);
 }
 
 /**
- * Create a new profile based on the current settings
+ * Reads the manager configuration, filling in defaults for anything missing.
  */
-async function createProfile(
-	name: string,
-	options: CommandOptions,
-): Promise<void> {
-	console.log(chalk.yellow(`Creating new profile: ${name}`));
-	let profiles = await readProfiles();
-	if (profiles.some((p) => p.name === name)) {
-		console.error(
-			chalk.red(`Error: Profile with name "${name}" already exists.`),
-		);
-		Deno.exit(1);
+async function readConfig(): Promise<ManagerConfig> {
+	let stored: Partial<ManagerConfig> = {};
+	if (await exists(APP_PATHS.CONFIG_FILE)) {
+		try {
+			stored = JSON.parse(await Deno.readTextFile(APP_PATHS.CONFIG_FILE));
+		} catch (e) {
+			console.warn(
+				chalk.yellow(
+					`Warning: Could not parse ${APP_PATHS.CONFIG_FILE}: ${
+						e instanceof Error ? e.message : "Unknown error"
+					}. Using default settings.`,
+				),
+			);
+		}
 	}
-
-	const componentOptions: ComponentOptions = {
-		userThemes: options.userThemes !== false,
-		systemThemes: options.addSystemThemes === true,
-		userIcons: options.userIconsLocal !== false,
-		userIconsAlt: options.userIconsHome !== false,
-		systemIcons: options.addSystemIcons === true,
-		userFonts: options.userFontsLocal !== false,
-		userFontsAlt: options.userFontsHome !== false,
-		systemFonts: options.addSystemFonts === true,
-		dconf: options.dconf !== false,
+	return {
+		...DEFAULT_CONFIG,
+		...stored,
+		retention: {
+			manual: {
+				...DEFAULT_CONFIG.retention.manual,
+				...stored.retention?.manual,
+			},
+			auto: {
+				...DEFAULT_CONFIG.retention.auto,
+				...stored.retention?.auto,
+			},
+			scheduled: {
+				...DEFAULT_CONFIG.retention.scheduled,
+				...stored.retention?.scheduled,
+			},
+		},
+		dconfKeyFilters: {
+			...DEFAULT_CONFIG.dconfKeyFilters,
+			...stored.dconfKeyFilters,
+		},
 	};
+}
 
-	const success = await withTempDir(
-		{ prefix: "cinnamon-profile-" },
-		async (tempDir) => {
-			const tempShareDir = join(tempDir, "share");
-			const tempConfigDir = join(tempDir, "config");
-
-			console.log(
-				chalk.gray("Copying current Cinnamon file-based settings..."),
-			);
-			await copyDirectoryContents(
-				CINNAMON_PATHS.SHARE_DIR_ABSOLUTE,
-				tempShareDir,
-			);
-			await copyDirectoryContents(
-				CINNAMON_PATHS.CONFIG_DIR_ABSOLUTE,
-				tempConfigDir,
-			);
+/**
+ * Executes an action within a temporary directory, ensuring cleanup.
+ */
+async function withTempDir<T>(
+	options: Deno.MakeTempOptions,
+	action: (tempDir: string) => Promise<T>,
+): Promise<T> {
+	const tempDir = await Deno.makeTempDir(options);
+	try {
+		return await action(tempDir);
+	} finally {
+		await Deno.remove(tempDir, { recursive: true });
+	}
+}
 
-			// copy themes, icons, and fonts
-			await copyThemeIconAndFontDirectories(tempDir, componentOptions);
+/**
+ * Copies the contents of a source directory to a destination directory.
+ */
+async function copyDirectoryContents(
+	sourceDir: string,
+	destinationDir: string,
+	failOnError: boolean = false,
+): Promise<void> {
+	if (!(await exists(sourceDir))) {
+		console.warn(
+			chalk.yellow(
+				`Warning: Source directory ${sourceDir} does not exist. Skipping copy of its contents.`,
+			),
+		);
+		return;
+	}
+	await Deno.mkdir(destinationDir, { recursive: true });
+	for await (const entry of Deno.readDir(sourceDir)) {
+		const sourcePath = join(sourceDir, entry.name);
+		const destinationPath = join(destinationDir, entry.name);
+		try {
+			await copy(sourcePath, destinationPath, {
+				overwrite: true,
+			});
+		} catch (error) {
+			if (failOnError) {
+				throw new Error(
+					`Failed to copy ${sourcePath} to ${destinationPath}: ${
+						error instanceof Error ? error.message : "Unknown error"
+					}`,
+				);
+			}
+			console.warn(
+				chalk.yellow(
+					`Warning: Failed to copy ${sourcePath} to ${destinationPath}: ${
+						error instanceof Error ? error.message : "Unknown error"
+					}. Skipping this file/directory.`,
+				),
+			);
+		}
+	}
+}
 
-			// dump dconf settings
-			if (componentOptions.dconf) {
-				const dconfDumpPath = join(tempDir, DCONF_SETTINGS_FILE);
-				console.log(
-					chalk.gray(
-						`Dumping dconf settings for /org/cinnamon/ to ${
-							basename(
-								dconfDumpPath,
-							)
-						}...`,
-					),
+// --- zip archive engine ---
+
+/**
+ * Error raised by the zip archive engine. `code` says what went wrong, `path`
+ * names the archive (and `entry` the entry inside it) that caused it.
+ */
+class ArchiveError extends Error {
+	constructor(
+		public code:
+			| "NOT_FOUND"
+			| "INVALID_ARCHIVE"
+			| "UNSUPPORTED"
+			| "CHECKSUM_MISMATCH"
+			| "UNSAFE_PATH"
+			| "TOO_LARGE"
+			| "IO",
+		message: string,
+		public path: string,
+		public entry?: string,
+	) {
+		super(message);
+		this.name = "ArchiveError";
+	}
+}
+
+const ZIP_SIGNATURES = {
+	LOCAL_HEADER: 0x04034b50,
+	DATA_DESCRIPTOR: 0x08074b50,
+	CENTRAL_HEADER: 0x02014b50,
+	END_OF_CENTRAL_DIR: 0x06054b50,
+	ZIP64_END_OF_CENTRAL_DIR: 0x06064b50,
+	ZIP64_LOCATOR: 0x07064b50,
+};
+const ZIP_MAX_32 = 0xffffffff;
+const ZIP_MAX_16 = 0xffff;
+const S_IFMT = 0o170000;
+const S_IFLNK = 0o120000;
+const S_IFDIR = 0o040000;
+const S_IFREG = 0o100000;
+
+let crc32Table: Uint32Array | null = null;
+
+/**
+ * Updates a CRC-32 checksum with more data. Start with 0.
+ */
+function crc32(crc: number, data: Uint8Array): number {
+	if (!crc32Table) {
+		crc32Table = new Uint32Array(256);
+		for (let n = 0; n < 256; n++) {
+			let c = n;
+			for (let k = 0; k < 8; k++) {
+				c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+			}
+			crc32Table[n] = c >>> 0;
+		}
+	}
+	let c = crc ^ 0xffffffff;
+	for (let i = 0; i < data.length; i++) {
+		c = crc32Table[(c ^ data[i]) & 0xff] ^ (c >>> 8);
+	}
+	return (c ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Converts a date to the MS-DOS time and date fields used by zip headers.
+ */
+function toDosDateTime(date: Date): { time: number; date: number } {
+	const year = Math.max(date.getFullYear(), 1980);
+	return {
+		time: (date.getHours() << 11) | (date.getMinutes() << 5) |
+			Math.floor(date.getSeconds() / 2),
+		date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) |
+			date.getDate(),
+	};
+}
+
+/**
+ * Writes all bytes to a file.
+ */
+async function writeAllBytes(
+	file: Deno.FsFile,
+	data: Uint8Array,
+): Promise<void> {
+	let written = 0;
+	while (written < data.length) {
+		written += await file.write(data.subarray(written));
+	}
+}
+
+/**
+ * Reads exactly `length` bytes at `offset`, or fails if the file is too short.
+ */
+async function readBytesAt(
+	file: Deno.FsFile,
+	offset: number,
+	length: number,
+	archivePath: string,
+): Promise<Uint8Array> {
+	const buffer = new Uint8Array(length);
+	await file.seek(offset, Deno.SeekMode.Start);
+	let read = 0;
+	while (read < length) {
+		const n = await file.read(buffer.subarray(read));
+		if (n === null) {
+			throw new ArchiveError(
+				"INVALID_ARCHIVE",
+				"Unexpected end of file.",
+				archivePath,
+			);
+		}
+		read += n;
+	}
+	return buffer;
+}
+
+/**
+ * Streams `length` bytes starting at `offset` of a file.
+ */
+function readRangeStream(
+	file: Deno.FsFile,
+	offset: number,
+	length: number,
+	archivePath: string,
+): ReadableStream<Uint8Array> {
+	let position = offset;
+	const end = offset + length;
+	return new ReadableStream<Uint8Array>({
+		async pull(controller) {
+			if (position >= end) {
+				controller.close();
+				return;
+			}
+			const chunkSize = Math.min(64 * 1024, end - position);
+			controller.enqueue(
+				await readBytesAt(file, position, chunkSize, archivePath),
+			);
+			position += chunkSize;
+		},
+	});
+}
+
+/**
+ * Writes the contents of a directory to a zip file. File data is deflated
+ * while streaming, so files are never loaded into memory whole.
+ */
+async function writeZipArchive(
+	sourceDir: string,
+	zipFilePath: string,
+): Promise<void> {
+	const encoder = new TextEncoder();
+	const centralRecords: Uint8Array[] = [];
+	let entryCount = 0;
+	let offset = 0;
+
+	let output: Deno.FsFile;
+	try {
+		output = await Deno.open(zipFilePath, {
+			write: true,
+			create: true,
+			truncate: true,
+		});
+	} catch (e) {
+		throw new ArchiveError(
+			"IO",
+			e instanceof Error ? e.message : String(e),
+			zipFilePath,
+		);
+	}
+
+	const writeEntry = async (
+		name: string,
+		info: Deno.FileInfo,
+		content: ReadableStream<Uint8Array> | null,
+	): Promise<void> => {
+		const nameBytes = encoder.encode(name);
+		const dos = toDosDateTime(info.mtime ?? new Date());
+		const isDir = name.endsWith("/");
+		const flags = isDir ? 0x0800 : 0x0808; // utf-8 names, sizes in data descriptor
+		const method = isDir ? 0 : 8; // stored / deflate
+
+		const header = new Uint8Array(30 + nameBytes.length);
+		const hv = new DataView(header.buffer);
+		hv.setUint32(0, ZIP_SIGNATURES.LOCAL_HEADER, true);
+		hv.setUint16(4, 20, true);
+		hv.setUint16(6, flags, true);
+		hv.setUint16(8, method, true);
+		hv.setUint16(10, dos.time, true);
+		hv.setUint16(12, dos.date, true);
+		hv.setUint16(26, nameBytes.length, true);
+		header.set(nameBytes, 30);
+		await writeAllBytes(output, header);
+
+		let crc = 0;
+		let size = 0;
+		let compressedSize = 0;
+		if (content) {
+			const checksummed = content.pipeThrough(
+				new TransformStream<Uint8Array, Uint8Array>({
+					transform(chunk, controller) {
+						crc = crc32(crc, chunk);
+						size += chunk.length;
+						controller.enqueue(chunk);
+					},
+				}),
+			);
+			for await (
+				const chunk of checksummed.pipeThrough(
+					new CompressionStream("deflate-raw") as TransformStream<
+						Uint8Array,
+						Uint8Array
+					>,
+				)
+			) {
+				await writeAllBytes(output, chunk);
+				compressedSize += chunk.length;
+			}
+			if (size > ZIP_MAX_32 || compressedSize > ZIP_MAX_32) {
+				throw new ArchiveError(
+					"UNSUPPORTED",
+					"Files larger than 4 GiB are not supported.",
+					zipFilePath,
+					name,
 				);
-				const dconfDumpResult = await executeCommand("dconf", [
-					"dump",
-					"/org/cinnamon/",
-				]);
-				if (dconfDumpResult.success && dconfDumpResult.stdout) {
-					await Deno.writeTextFile(
-						dconfDumpPath,
-						dconfDumpResult.stdout,
-					);
-					console.log(
-						chalk.gray("dconf settings dumped successfully."),
-					);
-				} else {
-					console.warn(
-						chalk.yellow(
-							`Warning: Failed to dump dconf settings for /org/cinnamon/. Profile will be created without them.`,
-						),
-					);
-					console.warn(
-						chalk.gray(`dconf stderr: ${dconfDumpResult.stderr}`),
-					);
-				}
-			} else {
-				console.log(
-					chalk.gray("Skipping dconf settings (disabled by option)."),
+			}
+			const descriptor = new Uint8Array(16);
+			const dv = new DataView(descriptor.buffer);
+			dv.setUint32(0, ZIP_SIGNATURES.DATA_DESCRIPTOR, true);
+			dv.setUint32(4, crc, true);
+			dv.setUint32(8, compressedSize, true);
+			dv.setUint32(12, size, true);
+			await writeAllBytes(output, descriptor);
+		}
+
+		// offsets past 4 GiB go into a zip64 extra field
+		const zip64Offset = offset >= ZIP_MAX_32;
+		const extra = new Uint8Array(zip64Offset ? 12 : 0);
+		if (zip64Offset) {
+			const ev = new DataView(extra.buffer);
+			ev.setUint16(0, 0x0001, true);
+			ev.setUint16(2, 8, true);
+			ev.setBigUint64(4, BigInt(offset), true);
+		}
+
+		const record = new Uint8Array(46 + nameBytes.length + extra.length);
+		const rv = new DataView(record.buffer);
+		rv.setUint32(0, ZIP_SIGNATURES.CENTRAL_HEADER, true);
+		rv.setUint16(4, 0x031e, true); // made by unix, spec 3.0
+		rv.setUint16(6, zip64Offset ? 45 : 20, true);
+		rv.setUint16(8, flags, true);
+		rv.setUint16(10, method, true);
+		rv.setUint16(12, dos.time, true);
+		rv.setUint16(14, dos.date, true);
+		rv.setUint32(16, crc, true);
+		rv.setUint32(20, compressedSize, true);
+		rv.setUint32(24, size, true);
+		rv.setUint16(28, nameBytes.length, true);
+		rv.setUint16(30, extra.length, true);
+		const typeBits = isDir ? S_IFDIR : info.isSymlink ? S_IFLNK : S_IFREG;
+		const mode = typeBits |
+			((info.mode ?? (isDir ? 0o755 : 0o644)) & 0o7777);
+		rv.setUint32(38, ((mode << 16) | (isDir ? 0x10 : 0)) >>> 0, true);
+		rv.setUint32(42, zip64Offset ? ZIP_MAX_32 : offset, true);
+		record.set(nameBytes, 46);
+		record.set(extra, 46 + nameBytes.length);
+		centralRecords.push(record);
+		entryCount++;
+
+		offset += header.length + compressedSize + (content ? 16 : 0);
+	};
+
+	const addDirectory = async (relativeDir: string): Promise<void> => {
+		for await (
+			const dirEntry of Deno.readDir(join(sourceDir, relativeDir))
+		) {
+			const relativePath = relativeDir
+				? `${relativeDir}/${dirEntry.name}`
+				: dirEntry.name;
+			const fullPath = join(sourceDir, relativePath);
+			const info = await Deno.lstat(fullPath);
+			if (info.isSymlink) {
+				const target = encoder.encode(await Deno.readLink(fullPath));
+				await writeEntry(
+					relativePath,
+					info,
+					ReadableStream.from([target]),
+				);
+			} else if (info.isDirectory) {
+				await writeEntry(`${relativePath}/`, info, null);
+				await addDirectory(relativePath);
+			} else if (info.isFile) {
+				const file = await Deno.open(fullPath, { read: true });
+				await writeEntry(relativePath, info, file.readable); // closes the file when read
+			}
+		}
+	};
+
+	try {
+		await addDirectory("");
+
+		const centralOffset = offset;
+		let centralSize = 0;
+		for (const record of centralRecords) {
+			await writeAllBytes(output, record);
+			centralSize += record.length;
+		}
+
+		const needsZip64 = entryCount >= ZIP_MAX_16 ||
+			centralOffset >= ZIP_MAX_32 || centralSize >= ZIP_MAX_32;
+		if (needsZip64) {
+			const zip64End = new Uint8Array(56 + 20);
+			const zv = new DataView(zip64End.buffer);
+			zv.setUint32(0, ZIP_SIGNATURES.ZIP64_END_OF_CENTRAL_DIR, true);
+			zv.setBigUint64(4, 44n, true);
+			zv.setUint16(12, 0x031e, true);
+			zv.setUint16(14, 45, true);
+			zv.setBigUint64(24, BigInt(entryCount), true);
+			zv.setBigUint64(32, BigInt(entryCount), true);
+			zv.setBigUint64(40, BigInt(centralSize), true);
+			zv.setBigUint64(48, BigInt(centralOffset), true);
+			// locator
+			zv.setUint32(56, ZIP_SIGNATURES.ZIP64_LOCATOR, true);
+			zv.setBigUint64(64, BigInt(centralOffset + centralSize), true);
+			zv.setUint32(72, 1, true);
+			await writeAllBytes(output, zip64End);
+		}
+
+		const end = new Uint8Array(22);
+		const endView = new DataView(end.buffer);
+		endView.setUint32(0, ZIP_SIGNATURES.END_OF_CENTRAL_DIR, true);
+		endView.setUint16(8, Math.min(entryCount, ZIP_MAX_16), true);
+		endView.setUint16(10, Math.min(entryCount, ZIP_MAX_16), true);
+		endView.setUint32(12, Math.min(centralSize, ZIP_MAX_32), true);
+		endView.setUint32(16, Math.min(centralOffset, ZIP_MAX_32), true);
+		await writeAllBytes(output, end);
+	} catch (e) {
+		if (e instanceof ArchiveError) throw e;
+		throw new ArchiveError(
+			"IO",
+			e instanceof Error ? e.message : String(e),
+			zipFilePath,
+		);
+	} finally {
+		output.close();
+	}
+}
+
+/**
+ * Reads the central directory of a zip file.
+ */
+async function readZipEntries(zipFilePath: string): Promise<ZipEntry[]> {
+	let file: Deno.FsFile;
+	try {
+		file = await Deno.open(zipFilePath, { read: true });
+	} catch (e) {
+		throw new ArchiveError(
+			e instanceof Deno.errors.NotFound ? "NOT_FOUND" : "IO",
+			e instanceof Error ? e.message : String(e),
+			zipFilePath,
+		);
+	}
+
+	try {
+		const fileSize = (await file.stat()).size;
+		const tailLength = Math.min(fileSize, 22 + ZIP_MAX_16);
+		const tail = await readBytesAt(
+			file,
+			fileSize - tailLength,
+			tailLength,
+			zipFilePath,
+		);
+		const tailView = new DataView(tail.buffer);
+		let endPos = -1;
+		for (let i = tail.length - 22; i >= 0; i--) {
+			if (
+				tailView.getUint32(i, true) ===
+					ZIP_SIGNATURES.END_OF_CENTRAL_DIR
+			) {
+				endPos = i;
+				break;
+			}
+		}
+		if (endPos === -1) {
+			throw new ArchiveError(
+				"INVALID_ARCHIVE",
+				"End of central directory not found. The file is not a zip archive or is truncated.",
+				zipFilePath,
+			);
+		}
+
+		let entryCount = tailView.getUint16(endPos + 10, true);
+		let centralSize = tailView.getUint32(endPos + 12, true);
+		let centralOffset = tailView.getUint32(endPos + 16, true);
+
+		const locatorPos = endPos - 20;
+		if (
+			locatorPos >= 0 &&
+			tailView.getUint32(locatorPos, true) ===
+				ZIP_SIGNATURES.ZIP64_LOCATOR
+		) {
+			const zip64EndOffset = Number(
+				tailView.getBigUint64(locatorPos + 8, true),
+			);
+			const zip64End = new DataView(
+				(await readBytesAt(file, zip64EndOffset, 56, zipFilePath))
+					.buffer,
+			);
+			if (
+				zip64End.getUint32(0, true) !==
+					ZIP_SIGNATURES.ZIP64_END_OF_CENTRAL_DIR
+			) {
+				throw new ArchiveError(
+					"INVALID_ARCHIVE",
+					"Invalid zip64 end of central directory.",
+					zipFilePath,
 				);
 			}
+			entryCount = Number(zip64End.getBigUint64(32, true));
+			centralSize = Number(zip64End.getBigUint64(40, true));
+			centralOffset = Number(zip64End.getBigUint64(48, true));
+		}
 
-			const zipFile = join(
-				APP_PATHS.CUSTOM_PROFILES_ROOT_DIR,
-				`${name}-${crypto.randomUUID()}.zip`,
+		if (centralOffset + centralSize > fileSize) {
+			throw new ArchiveError(
+				"INVALID_ARCHIVE",
+				"Central directory lies outside the file. The archive is truncated.",
+				zipFilePath,
 			);
-			console.log(chalk.gray(`Zipping profile to ${zipFile}...`));
-			if (!(await zipDirectoryContents(tempDir, zipFile))) {
-				return false;
+		}
+
+		const central = await readBytesAt(
+			file,
+			centralOffset,
+			centralSize,
+			zipFilePath,
+		);
+		const cv = new DataView(central.buffer);
+		const decoder = new TextDecoder();
+		const entries: ZipEntry[] = [];
+		let pos = 0;
+		for (let i = 0; i < entryCount; i++) {
+			if (
+				pos + 46 > central.length ||
+				cv.getUint32(pos, true) !== ZIP_SIGNATURES.CENTRAL_HEADER
+			) {
+				throw new ArchiveError(
+					"INVALID_ARCHIVE",
+					"Corrupt central directory.",
+					zipFilePath,
+				);
+			}
+			const madeBy = cv.getUint16(pos + 4, true) >> 8;
+			const flags = cv.getUint16(pos + 8, true);
+			const nameLength = cv.getUint16(pos + 28, true);
+			const extraLength = cv.getUint16(pos + 30, true);
+			const commentLength = cv.getUint16(pos + 32, true);
+			const externalAttributes = cv.getUint32(pos + 38, true);
+			const nameBytes = central.subarray(pos + 46, pos + 46 + nameLength);
+
+			let compressedSize = cv.getUint32(pos + 20, true);
+			let size = cv.getUint32(pos + 24, true);
+			let localHeaderOffset = cv.getUint32(pos + 42, true);
+
+			// zip64 extra field holds whichever values overflowed, in this order
+			let extraPos = pos + 46 + nameLength;
+			const extraEnd = extraPos + extraLength;
+			while (extraPos + 4 <= extraEnd) {
+				const id = cv.getUint16(extraPos, true);
+				const length = cv.getUint16(extraPos + 2, true);
+				if (id === 0x0001) {
+					let fieldPos = extraPos + 4;
+					if (size === ZIP_MAX_32) {
+						size = Number(cv.getBigUint64(fieldPos, true));
+						fieldPos += 8;
+					}
+					if (compressedSize === ZIP_MAX_32) {
+						compressedSize = Number(
+							cv.getBigUint64(fieldPos, true),
+						);
+						fieldPos += 8;
+					}
+					if (localHeaderOffset === ZIP_MAX_32) {
+						localHeaderOffset = Number(
+							cv.getBigUint64(fieldPos, true),
+						);
+					}
+				}
+				extraPos += 4 + length;
 			}
 
-			profiles = await readProfiles();
-			profiles.forEach((p) => (p.active = false));
-			profiles.push({
-				name: name,
-				active: true,
-				lastModified: new Date().toISOString(),
-				zipFile: zipFile,
+			const unixMode = madeBy === 3 ? externalAttributes >>> 16 : 0;
+			const name = flags & 0x0800
+				? decoder.decode(nameBytes)
+				: String.fromCharCode(...nameBytes);
+			entries.push({
+				name,
+				method: cv.getUint16(pos + 10, true),
+				crc32: cv.getUint32(pos + 16, true),
+				compressedSize,
+				size,
+				localHeaderOffset,
+				mode: unixMode & 0o7777 || null,
+				isDirectory: name.endsWith("/") ||
+					(unixMode & S_IFMT) === S_IFDIR ||
+					(externalAttributes & 0x10) !== 0,
+				isSymlink: (unixMode & S_IFMT) === S_IFLNK,
+				isSpecial: ![0, S_IFREG, S_IFDIR, S_IFLNK].includes(
+					unixMode & S_IFMT,
+				),
+				encrypted: (flags & 0x0001) !== 0,
 			});
-			await writeProfiles(profiles);
-			return true;
-		},
+			pos += 46 + nameLength + extraLength + commentLength;
+		}
+		return entries;
+	} catch (e) {
+		if (e instanceof ArchiveError) throw e;
+		throw new ArchiveError(
+			"IO",
+			e instanceof Error ? e.message : String(e),
+			zipFilePath,
+		);
+	} finally {
+		file.close();
+	}
+}
+
+/**
+ * Streams the (decompressed) data of one zip entry. The checksum is verified
+ * when the stream ends.
+ */
+async function openZipEntryStream(
+	file: Deno.FsFile,
+	zipFilePath: string,
+	entry: ZipEntry,
+): Promise<ReadableStream<Uint8Array>> {
+	if (entry.encrypted) {
+		throw new ArchiveError(
+			"UNSUPPORTED",
+			"Encrypted entries are not supported.",
+			zipFilePath,
+			entry.name,
+		);
+	}
+	if (entry.method !== 0 && entry.method !== 8) {
+		throw new ArchiveError(
+			"UNSUPPORTED",
+			`Compression method ${entry.method} is not supported.`,
+			zipFilePath,
+			entry.name,
+		);
+	}
+
+	const header = new DataView(
+		(await readBytesAt(file, entry.localHeaderOffset, 30, zipFilePath))
+			.buffer,
 	);
+	if (header.getUint32(0, true) !== ZIP_SIGNATURES.LOCAL_HEADER) {
+		throw new ArchiveError(
+			"INVALID_ARCHIVE",
+			"Corrupt local file header.",
+			zipFilePath,
+			entry.name,
+		);
+	}
+	const dataOffset = entry.localHeaderOffset + 30 +
+		header.getUint16(26, true) + header.getUint16(28, true);
 
-	if (success) {
-		console.log(chalk.green("Profile created and activated successfully"));
-	} else {
-		console.error(chalk.red("Profile creation failed."));
-		Deno.exit(1);
+	const raw = readRangeStream(
+		file,
+		dataOffset,
+		entry.compressedSize,
+		zipFilePath,
+	);
+	const data = entry.method === 8
+		? raw.pipeThrough(
+			new DecompressionStream("deflate-raw") as TransformStream<
+				Uint8Array,
+				Uint8Array
+			>,
+		)
+		: raw;
+
+	let crc = 0;
+	let written = 0;
+	return data.pipeThrough(
+		new TransformStream<Uint8Array, Uint8Array>({
+			transform(chunk, controller) {
+				// stop decompression bombs that understate their size in the directory
+				written += chunk.length;
+				if (written > entry.size) {
+					throw new ArchiveError(
+						"INVALID_ARCHIVE",
+						"Entry is larger than its recorded size.",
+						zipFilePath,
+						entry.name,
+					);
+				}
+				crc = crc32(crc, chunk);
+				controller.enqueue(chunk);
+			},
+			flush() {
+				if (crc !== entry.crc32) {
+					throw new ArchiveError(
+						"CHECKSUM_MISMATCH",
+						"Checksum mismatch. The archive is corrupted.",
+						zipFilePath,
+						entry.name,
+					);
+				}
+			},
+		}),
+	);
+}
+
+/**
+ * Reads a single entry of a zip file without extracting anything else.
+ * Returns null if the archive has no such entry.
+ */
+async function readZipEntry(
+	zipFilePath: string,
+	entryName: string,
+): Promise<Uint8Array | null> {
+	const entry = (await readZipEntries(zipFilePath)).find(
+		(e) => e.name === entryName || e.name === `./${entryName}`,
+	);
+	if (!entry || entry.isDirectory) {
+		return null;
+	}
+	const file = await Deno.open(zipFilePath, { read: true });
+	try {
+		const stream = await openZipEntryStream(file, zipFilePath, entry);
+		return new Uint8Array(await new Response(stream).arrayBuffer());
+	} catch (e) {
+		if (e instanceof ArchiveError) throw e;
+		throw new ArchiveError(
+			"INVALID_ARCHIVE",
+			e instanceof Error ? e.message : String(e),
+			zipFilePath,
+			entry.name,
+		);
+	} finally {
+		file.close();
 	}
 }
 
 /**
- * Creates a backup of current Cinnamon settings with a timestamp.
- * @param targetDir - The directory to save the backup to.
- * @param prefix - Prefix for the backup filename.
- * @returns Path to the created backup file, or null on failure.
+ * Normalizes an entry name to a relative path inside the destination, or
+ * throws if it would end up outside of it.
  */
-async function createTimestampedBackup(
-	targetDir: string,
-	prefix: string = "backup",
-	options?: ComponentOptions,
-): Promise<string | null> {
-	const componentOptions: ComponentOptions = options || {
-		userThemes: true,
-		systemThemes: true,
-		userIcons: true,
-		userIconsAlt: true,
-		systemIcons: true,
-		userFonts: true,
-		userFontsAlt: true,
-		systemFonts: true,
-		dconf: true,
-	};
+function safeEntryPath(name: string, zipFilePath: string): string {
+	const parts: string[] = [];
+	for (const part of name.replace(/\\/g, "/").split("/")) {
+		if (part === "" || part === ".") continue;
+		if (part === "..") {
+			throw new ArchiveError(
+				"UNSAFE_PATH",
+				"Entry path points outside the extraction directory.",
+				zipFilePath,
+				name,
+			);
+		}
+		parts.push(part);
+	}
+	if (name.startsWith("/")) {
+		throw new ArchiveError(
+			"UNSAFE_PATH",
+			"Entry has an absolute path.",
+			zipFilePath,
+			name,
+		);
+	}
+	return parts.join("/");
+}
+
+/**
+ * Throws unless a symlink at the normalized `linkPath` has a relative target
+ * that stays inside its top-level directory (e.g. within user-icons/), or
+ * inside the extraction directory for a link at the top level.
+ */
+function checkSymlinkTarget(
+	linkPath: string,
+	target: string,
+	zipFilePath: string,
+	entryName: string = linkPath,
+): void {
+	if (target === "" || target.startsWith("/")) {
+		throw new ArchiveError(
+			"UNSAFE_PATH",
+			"Symlinks with absolute targets are not allowed.",
+			zipFilePath,
+			entryName,
+		);
+	}
+	const [topLevel, ...rest] = linkPath.split("/");
+	const resolved = join(dirname(linkPath), target);
+	const isInside = rest.length === 0
+		? resolved !== ".." && !resolved.startsWith("../")
+		: resolved.startsWith(`${topLevel}/`);
+	if (!isInside) {
+		throw new ArchiveError(
+			"UNSAFE_PATH",
+			`Symlink target "${target}" points outside ${
+				rest.length === 0 ? "the extraction directory" : `${topLevel}/`
+			}.`,
+			zipFilePath,
+			entryName,
+		);
+	}
+}
+
+/**
+ * Extracts all entries of a zip file into a directory.
+ */
+async function extractZipArchive(
+	zipFilePath: string,
+	destinationDir: string,
+): Promise<void> {
+	const entries = await readZipEntries(zipFilePath);
+	const file = await Deno.open(zipFilePath, { read: true });
+	const decoder = new TextDecoder();
+	const symlinks: string[] = [];
+	let current: ZipEntry | undefined;
+	try {
+		await Deno.mkdir(destinationDir, { recursive: true });
+		for (const entry of entries) {
+			current = entry;
+			const relativePath = safeEntryPath(entry.name, zipFilePath);
+			if (relativePath === "") continue;
+			if (symlinks.some((link) => relativePath.startsWith(`${link}/`))) {
+				throw new ArchiveError(
+					"UNSAFE_PATH",
+					"Entry path goes through a symlink.",
+					zipFilePath,
+					entry.name,
+				);
+			}
+			if (entry.isSpecial) {
+				throw new ArchiveError(
+					"UNSUPPORTED",
+					"Device files, FIFOs and sockets are not supported.",
+					zipFilePath,
+					entry.name,
+				);
+			}
+			const target = join(destinationDir, relativePath);
+
+			if (entry.isDirectory) {
+				await Deno.mkdir(target, { recursive: true });
+				continue;
+			}
+			await Deno.mkdir(dirname(target), { recursive: true });
+			await Deno.remove(target).catch(() => {});
+			const stream = await openZipEntryStream(file, zipFilePath, entry);
+
+			if (entry.isSymlink) {
+				const linkTarget = decoder.decode(
+					await new Response(stream).arrayBuffer(),
+				);
+				checkSymlinkTarget(
+					relativePath,
+					linkTarget,
+					zipFilePath,
+					entry.name,
+				);
+				await Deno.symlink(linkTarget, target);
+				symlinks.push(relativePath);
+				continue;
+			}
+
+			const output = await Deno.open(target, {
+				write: true,
+				create: true,
+				truncate: true,
+			});
+			await stream.pipeTo(output.writable); // closes the file
+			if (entry.mode) {
+				await Deno.chmod(target, entry.mode);
+			}
+		}
+	} catch (e) {
+		if (e instanceof ArchiveError) throw e;
+		throw new ArchiveError(
+			"INVALID_ARCHIVE",
+			e instanceof Error ? e.message : String(e),
+			zipFilePath,
+			current?.name,
+		);
+	} finally {
+		file.close();
+	}
+}
+
+/**
+ * Formats an archive error for display.
+ */
+function describeArchiveError(e: unknown): string {
+	if (e instanceof ArchiveError) {
+		return `[${e.code}] ${e.entry ? `${e.entry}: ` : ""}${e.message}`;
+	}
+	return e instanceof Error ? e.message : String(e);
+}
+
+/**
+ * Zips all contents of a directory.
+ * Paths ending in SNAPSHOT_EXTENSION are stored in the object store instead.
+ */
+async function zipDirectoryContents(
+	sourceDir: string,
+	zipFilePath: string,
+): Promise<boolean> {
+	let isEmpty = true;
+	try {
+		for await (const _entry of Deno.readDir(sourceDir)) {
+			isEmpty = false;
+			break;
+		}
+	} catch (e) {
+		// if sourceDir doesn't exist, Deno.readDir will throw.
+		console.error(
+			chalk.red(
+				`Error reading source directory ${sourceDir} for zipping: ${
+					e instanceof Error ? e.message : String(e)
+				}`,
+			),
+		);
+		return false;
+	}
+
+	if (isEmpty) {
+		console.warn(
+			chalk.yellow(
+				`Warning: Source directory ${sourceDir} for zipping is empty. Archive will be empty.`,
+			),
+		);
+		// allow creating an empty zip, but it might indicate an upstream issue.
+	}
+
+	if (isSnapshotFile(zipFilePath)) {
+		return await writeSnapshot(sourceDir, zipFilePath);
+	}
+
+	// write next to the target and rename, so an interrupted run never leaves a truncated archive
+	const tempZipPath = `${zipFilePath}.tmp-${crypto.randomUUID()}`;
+	try {
+		await writeZipArchive(sourceDir, tempZipPath);
+		await Deno.rename(tempZipPath, zipFilePath);
+	} catch (e) {
+		console.error(
+			chalk.red(`Error: Failed to create archive at ${zipFilePath}.`),
+		);
+		console.error(chalk.gray(describeArchiveError(e)));
+		await Deno.remove(tempZipPath).catch(() => {});
+		return false;
+	}
+	return true;
+}
+
+/**
+ * Unzips an archive to a specified directory.
+ * Snapshot manifests are restored from the object store instead.
+ */
+async function unzipArchive(
+	zipFilePath: string,
+	destinationDir: string,
+): Promise<boolean> {
+	if (isSnapshotFile(zipFilePath)) {
+		return await restoreSnapshot(zipFilePath, destinationDir);
+	}
+
+	try {
+		await extractZipArchive(zipFilePath, destinationDir);
+	} catch (e) {
+		console.error(
+			chalk.red(`Error: Failed to extract archive ${zipFilePath}.`),
+		);
+		console.error(chalk.gray(describeArchiveError(e)));
+		return false;
+	}
+	return true;
+}
+
+/**
+ * Whether a path refers to a snapshot manifest in the object store rather than a zip file.
+ */
+function isSnapshotFile(path: string): boolean {
+	return path.endsWith(SNAPSHOT_EXTENSION);
+}
+
+/**
+ * Returns the path of the blob with the given SHA-256 hash.
+ */
+function blobPath(hash: string): string {
+	return join(APP_PATHS.OBJECTS_DIR, hash.substring(0, 2), hash.substring(2));
+}
+
+/**
+ * Returns the hex encoded SHA-256 hash of some data.
+ */
+async function sha256Hex(data: BufferSource): Promise<string> {
+	const digest = await crypto.subtle.digest("SHA-256", data);
+	return Array.from(new Uint8Array(digest))
+		.map((b) => b.toString(16).padStart(2, "0"))
+		.join("");
+}
+
+/**
+ * Streams a file through SHA-256, optionally copying it to `copyTo` (which
+ * must not exist yet) on the way, so large files are never held in memory.
+ */
+async function hashFile(
+	path: string,
+	copyTo?: string,
+): Promise<{ hash: string; size: number }> {
+	const hasher = createHash("sha256");
+	let size = 0;
+	const file = await Deno.open(path, { read: true });
+	let writer: WritableStreamDefaultWriter<Uint8Array> | undefined;
+	try {
+		if (copyTo) {
+			writer = (await Deno.open(copyTo, { write: true, createNew: true }))
+				.writable.getWriter();
+		}
+	} catch (e) {
+		file.close();
+		throw e;
+	}
+	try {
+		for await (const chunk of file.readable) {
+			hasher.update(chunk);
+			size += chunk.length;
+			await writer?.write(chunk);
+		}
+	} finally {
+		await writer?.close(); // closes the copy
+	}
+	return { hash: hasher.digest("hex"), size };
+}
+
+/**
+ * Whether the blob with the given hash is stored and undamaged.
+ */
+async function isIntactBlob(hash: string, size: number): Promise<boolean> {
+	try {
+		const blob = blobPath(hash);
+		if ((await Deno.stat(blob)).size !== size) {
+			return false;
+		}
+		return (await hashFile(blob)).hash === hash;
+	} catch (_e) {
+		return false;
+	}
+}
+
+/**
+ * Adds a file to the object store unless an intact copy is already there, and
+ * returns the hash and size of the stored content. A damaged blob is replaced.
+ */
+async function storeBlob(
+	sourcePath: string,
+): Promise<{ hash: string; size: number }> {
+	const hashed = await hashFile(sourcePath);
+	if (await isIntactBlob(hashed.hash, hashed.size)) {
+		return hashed;
+	}
+	const blob = blobPath(hashed.hash);
+	await Deno.mkdir(dirname(blob), { recursive: true });
+	const tempPath = `${blob}.tmp-${crypto.randomUUID()}`;
+	try {
+		// hashed again while copying, in case the file changed in the meantime
+		const stored = await hashFile(sourcePath, tempPath);
+		const storedBlob = blobPath(stored.hash);
+		await Deno.mkdir(dirname(storedBlob), { recursive: true });
+		await Deno.rename(tempPath, storedBlob);
+		return stored;
+	} catch (e) {
+		await Deno.remove(tempPath).catch(() => {});
+		throw e;
+	}
+}
+
+/**
+ * Stores a directory tree in the object store and writes a snapshot manifest for it.
+ * Files already in the store (by content) are not stored again.
+ */
+async function writeSnapshot(
+	sourceDir: string,
+	manifestPath: string,
+): Promise<boolean> {
+	const entries: SnapshotEntry[] = [];
+
+	const addDirectory = async (relativeDir: string): Promise<void> => {
+		for await (
+			const dirEntry of Deno.readDir(join(sourceDir, relativeDir))
+		) {
+			const relativePath = relativeDir
+				? join(relativeDir, dirEntry.name)
+				: dirEntry.name;
+			const fullPath = join(sourceDir, relativePath);
+			const info = await Deno.lstat(fullPath);
+			const mode = info.mode !== null ? info.mode & 0o7777 : undefined;
+
+			if (info.isSymlink) {
+				entries.push({
+					path: relativePath,
+					type: "symlink",
+					target: await Deno.readLink(fullPath),
+				});
+			} else if (info.isDirectory) {
+				entries.push({ path: relativePath, type: "dir", mode });
+				await addDirectory(relativePath);
+			} else if (info.isFile) {
+				const { hash, size } = await storeBlob(fullPath);
+				entries.push({
+					path: relativePath,
+					type: "file",
+					mode,
+					hash,
+					size,
+				});
+			}
+		}
+	};
+
+	try {
+		await addDirectory("");
+		const manifest: SnapshotManifest = {
+			format: "cinnamon-profile-snapshot",
+			version: 1,
+			createdAt: new Date().toISOString(),
+			entries,
+		};
+		await Deno.mkdir(dirname(manifestPath), { recursive: true });
+		await writeFileAtomic(manifestPath, JSON.stringify(manifest));
+		return true;
+	} catch (e) {
+		console.error(
+			chalk.red(
+				`Error: Failed to store snapshot ${basename(manifestPath)}: ${
+					e instanceof Error ? e.message : String(e)
+				}`,
+			),
+		);
+		return false;
+	}
+}
+
+/**
+ * Reads and validates a snapshot manifest.
+ */
+async function readSnapshotManifest(
+	manifestPath: string,
+): Promise<SnapshotManifest> {
+	const manifest = JSON.parse(await Deno.readTextFile(manifestPath));
+	if (
+		manifest?.format !== "cinnamon-profile-snapshot" ||
+		!Array.isArray(manifest.entries)
+	) {
+		throw new Error(
+			`${basename(manifestPath)} is not a snapshot manifest.`,
+		);
+	}
+	if (manifest.version > 1) {
+		throw new Error(
+			`${
+				basename(manifestPath)
+			} was written by a newer version of ${PROGRAM_NAME}.`,
+		);
+	}
+	return manifest as SnapshotManifest;
+}
+
+/**
+ * Recreates the directory tree described by a snapshot manifest.
+ */
+async function restoreSnapshot(
+	manifestPath: string,
+	destinationDir: string,
+): Promise<boolean> {
+	try {
+		const manifest = await readSnapshotManifest(manifestPath);
+		await Deno.mkdir(destinationDir, { recursive: true });
+		for (const entry of manifest.entries) {
+			const target = join(destinationDir, entry.path);
+			if (entry.type === "dir") {
+				await Deno.mkdir(target, { recursive: true, mode: entry.mode });
+			} else if (entry.type === "symlink") {
+				await Deno.mkdir(dirname(target), { recursive: true });
+				await Deno.remove(target).catch(() => {});
+				await Deno.symlink(entry.target!, target);
+			} else {
+				await Deno.mkdir(dirname(target), { recursive: true });
+				await Deno.copyFile(blobPath(entry.hash!), target);
+				if (entry.mode !== undefined) {
+					await Deno.chmod(target, entry.mode);
+				}
+			}
+		}
+		return true;
+	} catch (e) {
+		console.error(
+			chalk.red(
+				`Error: Failed to restore snapshot ${basename(manifestPath)}: ${
+					e instanceof Error ? e.message : String(e)
+				}`,
+			),
+		);
+		return false;
+	}
+}
+
+/**
+ * Lists all snapshot manifests that may reference blobs in the object store.
+ */
+async function listSnapshotManifests(): Promise<string[]> {
+	const manifests = new Set<string>();
+	for (const profile of await readProfiles()) {
+		if (isSnapshotFile(profile.zipFile)) {
+			manifests.add(profile.zipFile);
+		}
+	}
+	for (
+		const dir of [
+			APP_PATHS.CUSTOM_PROFILES_ROOT_DIR,
+			APP_PATHS.BACKUP_DIR,
+			APP_PATHS.AUTO_BACKUP_DIR,
+			APP_PATHS.SCHEDULED_BACKUP_DIR,
+		]
+	) {
+		if (!(await exists(dir))) continue;
+		for await (const dirEntry of Deno.readDir(dir)) {
+			if (dirEntry.isFile && isSnapshotFile(dirEntry.name)) {
+				manifests.add(join(dir, dirEntry.name));
+			}
+		}
+	}
+	return [...manifests];
+}
+
+/**
+ * Removes blobs no snapshot manifest references anymore.
+ * Returns the number of blobs removed, or null if a manifest could not be read
+ * (in which case nothing is removed).
+ */
+async function collectGarbage(): Promise<number | null> {
+	if (!(await exists(APP_PATHS.OBJECTS_DIR))) {
+		return 0;
+	}
+
+	const referenced = new Set<string>();
+	for (const manifestPath of await listSnapshotManifests()) {
+		if (!(await exists(manifestPath))) continue;
+		try {
+			for (
+				const entry of (await readSnapshotManifest(manifestPath))
+					.entries
+			) {
+				if (entry.hash) referenced.add(entry.hash);
+			}
+		} catch (e) {
+			console.warn(
+				chalk.yellow(
+					`Warning: Skipping garbage collection, could not read ${manifestPath}: ${
+						e instanceof Error ? e.message : String(e)
+					}`,
+				),
+			);
+			return null;
+		}
+	}
+
+	let removed = 0;
+	for await (const prefixEntry of Deno.readDir(APP_PATHS.OBJECTS_DIR)) {
+		if (!prefixEntry.isDirectory) continue;
+		const prefixDir = join(APP_PATHS.OBJECTS_DIR, prefixEntry.name);
+		for await (const blobEntry of Deno.readDir(prefixDir)) {
+			if (!referenced.has(prefixEntry.name + blobEntry.name)) {
+				await Deno.remove(join(prefixDir, blobEntry.name));
+				removed++;
+			}
+		}
+	}
+	return removed;
+}
+
+/**
+ * Runs garbage collection and reports freed blobs.
+ */
+async function collectGarbageAndReport(): Promise<void> {
+	const removed = await collectGarbage();
+	if (removed) {
+		console.log(
+			chalk.gray(
+				`Removed ${removed} unreferenced file(s) from the object store.`,
+			),
+		);
+	}
+}
+
+/**
+ * Converts profile and backup zip files created by older versions into
+ * snapshots in the object store. Runs only once; zip files that could not be
+ * converted are kept and used as they are.
+ */
+async function migrateZipArchivesToStore(): Promise<void> {
+	if (await exists(APP_PATHS.STORE_MIGRATED_FILE)) {
+		return;
+	}
+	await migrateLegacyArchives();
+	await Deno.mkdir(APP_PATHS.CUSTOM_PROFILES_ROOT_DIR, { recursive: true });
+	await writeFileAtomic(
+		APP_PATHS.STORE_MIGRATED_FILE,
+		`${new Date().toISOString()}\n`,
+	);
+}
+
+/**
+ * Converts the zip files found in the profiles database and backup directories.
+ */
+async function migrateLegacyArchives(): Promise<void> {
+	const profiles = await readProfiles();
+	const legacyProfiles = profiles.filter(
+		(p) =>
+			p.zipFile.endsWith(".zip") &&
+			dirname(p.zipFile) === APP_PATHS.CUSTOM_PROFILES_ROOT_DIR,
+	);
+	const legacyBackups = (await readBackupFiles()).filter((b) =>
+		b.filename.endsWith(".zip")
+	);
+	if (legacyProfiles.length === 0 && legacyBackups.length === 0) {
+		return;
+	}
+
+	console.log(
+		chalk.blue(
+			`Migrating ${legacyProfiles.length} profile(s) and ${legacyBackups.length} backup(s) to deduplicated storage...`,
+		),
+	);
+
+	const migrate = async (zipFile: string): Promise<string | null> => {
+		if (!(await exists(zipFile))) return null;
+		const manifestPath = zipFile.replace(/\.zip$/, SNAPSHOT_EXTENSION);
+		const success = await withTempDir(
+			{ prefix: "cinnamon-migrate-" },
+			async (tempDir) =>
+				(await unzipArchive(zipFile, tempDir)) &&
+				(await writeSnapshot(tempDir, manifestPath)),
+		);
+		if (!success) {
+			console.warn(
+				chalk.yellow(
+					`Warning: Could not migrate ${
+						basename(zipFile)
+					}. It will be kept as a zip file.`,
+				),
+			);
+			return null;
+		}
+		return manifestPath;
+	};
+
+	for (const profile of legacyProfiles) {
+		const manifestPath = await migrate(profile.zipFile);
+		if (manifestPath) {
+			const zipFile = profile.zipFile;
+			profile.zipFile = manifestPath;
+			await writeProfiles(profiles); // record the new location before removing the zip
+			await Deno.remove(zipFile);
+		}
+	}
+	for (const backup of legacyBackups) {
+		if (await migrate(backup.fullPath)) {
+			await Deno.remove(backup.fullPath);
+		}
+	}
+}
+
+/**
+ * Reads a single file from an archive or snapshot without extracting anything else.
+ * Returns null if there is no such file.
+ */
+async function readArchiveEntry(
+	archivePath: string,
+	entryName: string,
+): Promise<Uint8Array | null> {
+	if (!isSnapshotFile(archivePath)) {
+		return await readZipEntry(archivePath, entryName);
+	}
+	const entry = (await readSnapshotManifest(archivePath)).entries.find(
+		(e) => e.path === entryName && e.type === "file",
+	);
+	return entry ? await Deno.readFile(blobPath(entry.hash!)) : null;
+}
+
+/**
+ * Resolves a profile name, backup filename or archive path to an archive file.
+ */
+async function resolveArchiveSpec(
+	spec: string,
+): Promise<{ label: string; zipFile: string } | null> {
+	const profile = (await readProfiles()).find((p) => p.name === spec);
+	if (profile) {
+		return { label: `profile "${profile.name}"`, zipFile: profile.zipFile };
+	}
+
+	const backupFile = await resolveBackupFile(spec);
+	return backupFile
+		? { label: basename(backupFile), zipFile: backupFile }
+		: null;
+}
+
+/**
+ * Resolves a backup filename (in the backup directories) or archive path to a file.
+ */
+async function resolveBackupFile(spec: string): Promise<string | null> {
+	const names = spec.endsWith(".zip") || isSnapshotFile(spec)
+		? [spec]
+		: [spec, `${spec}${SNAPSHOT_EXTENSION}`, `${spec}.zip`];
+	const candidates = names.flatMap((n) => [
+		n,
+		join(APP_PATHS.BACKUP_DIR, n),
+		join(APP_PATHS.AUTO_BACKUP_DIR, n),
+		join(APP_PATHS.SCHEDULED_BACKUP_DIR, n),
+	]);
+	for (const candidate of candidates) {
+		try {
+			if ((await Deno.stat(candidate)).isFile) {
+				return candidate;
+			}
+		} catch (_e) {
+			/* not found, try the next candidate */
+		}
+	}
+	return null;
+}
+
+/**
+ * Returns the size of a file in bytes, or null if it cannot be read.
+ */
+async function getFileSize(path: string): Promise<number | null> {
+	try {
+		return (await Deno.stat(path)).size;
+	} catch (_e) {
+		return null;
+	}
+}
+
+/**
+ * Returns the size of the data in an archive: the file size for zip files and
+ * the total size of the files described by a snapshot manifest.
+ */
+async function getArchiveSize(path: string): Promise<number | null> {
+	if (!isSnapshotFile(path)) {
+		return await getFileSize(path);
+	}
+	try {
+		return (await readSnapshotManifest(path)).entries.reduce(
+			(total, entry) => total + (entry.size ?? 0),
+			0,
+		);
+	} catch (_e) {
+		return null;
+	}
+}
+
+/**
+ * Records the size and SHA-256 of every file in a staged archive, so damage can be detected later.
+ * Must be called last, once nothing else is added to the directory.
+ */
+async function writeArchiveManifest(
+	stagedDir: string,
+	components: ComponentOptions | null,
+): Promise<void> {
+	const files: ArchiveManifestFile[] = [];
+	for (const path of (await listFilesRecursive(stagedDir)).sort()) {
+		if (path === ARCHIVE_MANIFEST_FILE) continue;
+		const data = await Deno.readFile(join(stagedDir, path));
+		files.push({ path, size: data.length, sha256: await sha256Hex(data) });
+	}
+	const manifest: ArchiveManifest = {
+		format: "cinnamon-profile-archive",
+		formatVersion: 1,
+		toolVersion: VERSION,
+		createdAt: new Date().toISOString(),
+		components,
+		files,
+	};
+	await Deno.writeTextFile(
+		join(stagedDir, ARCHIVE_MANIFEST_FILE),
+		JSON.stringify(manifest, null, 2),
+	);
+}
+
+/**
+ * Parses an archive manifest, or returns null if the content is not one this version understands.
+ */
+function parseArchiveManifest(content: Uint8Array): ArchiveManifest | null {
+	try {
+		const manifest = JSON.parse(new TextDecoder().decode(content));
+		return manifest?.format === "cinnamon-profile-archive" &&
+				manifest.formatVersion <= 1 && Array.isArray(manifest.files)
+			? manifest as ArchiveManifest
+			: null;
+	} catch (_e) {
+		return null;
+	}
+}
+
+/**
+ * Compares the files found in an archive with its manifest and describes every difference.
+ */
+function compareArchiveManifest(
+	manifest: ArchiveManifest,
+	found: Map<string, { size: number; sha256: string }>,
+	unreadable: Set<string> = new Set(), // already reported, so not reported as missing
+): string[] {
+	const problems: string[] = [];
+	for (const expected of manifest.files) {
+		const actual = found.get(expected.path);
+		if (unreadable.has(expected.path)) {
+			continue;
+		} else if (!actual) {
+			problems.push(`${expected.path}: missing`);
+		} else if (actual.size !== expected.size) {
+			problems.push(
+				`${expected.path}: size is ${actual.size} bytes, expected ${expected.size}`,
+			);
+		} else if (actual.sha256 !== expected.sha256) {
+			problems.push(`${expected.path}: checksum mismatch`);
+		}
+	}
+	const listed = new Set(manifest.files.map((file) => file.path));
+	for (const path of found.keys()) {
+		if (!listed.has(path) && path !== ARCHIVE_MANIFEST_FILE) {
+			problems.push(`${path}: not listed in the manifest`);
+		}
+	}
+	return problems;
+}
+
+/**
+ * Checks every file of an archive or snapshot against its manifest without extracting it.
+ * Archives from before manifests were recorded are only checked for readability
+ * (zip CRCs and, for snapshots, the hashes of the stored files).
+ */
+async function verifyArchive(archivePath: string): Promise<VerifyResult> {
+	const found = new Map<string, { size: number; sha256: string }>();
+	const unreadable = new Set<string>();
+	const problems: string[] = [];
+	let manifest: ArchiveManifest | null = null;
+
+	const record = async (path: string, data: Uint8Array<ArrayBuffer>) => {
+		found.set(path, { size: data.length, sha256: await sha256Hex(data) });
+		if (path === ARCHIVE_MANIFEST_FILE) {
+			manifest = parseArchiveManifest(data);
+			if (!manifest) problems.push(`${path}: not a valid manifest`);
+		}
+	};
+
+	try {
+		if (isSnapshotFile(archivePath)) {
+			const snapshot = await readSnapshotManifest(archivePath);
+			for (const entry of snapshot.entries) {
+				if (entry.type !== "file") continue;
+				const data = await Deno.readFile(blobPath(entry.hash!)).catch(
+					() => null,
+				);
+				if (!data) {
+					problems.push(`${entry.path}: stored file is missing`);
+					unreadable.add(entry.path);
+					continue;
+				}
+				if (await sha256Hex(data) !== entry.hash) {
+					problems.push(`${entry.path}: stored file is damaged`);
+					unreadable.add(entry.path);
+					continue;
+				}
+				await record(entry.path, data);
+			}
+		} else {
+			const file = await Deno.open(archivePath, { read: true });
+			try {
+				for (const entry of await readZipEntries(archivePath)) {
+					if (entry.isDirectory || entry.isSymlink) continue;
+					const path = entry.name.replace(/^\.\//, "");
+					try {
+						const stream = await openZipEntryStream(
+							file,
+							archivePath,
+							entry,
+						);
+						await record(
+							path,
+							new Uint8Array(
+								await new Response(stream).arrayBuffer(),
+							),
+						);
+					} catch (e) {
+						problems.push(`${path}: ${describeArchiveError(e)}`);
+						unreadable.add(path);
+					}
+				}
+			} finally {
+				file.close();
+			}
+		}
+	} catch (e) {
+		problems.push(describeArchiveError(e));
+		return { files: found.size, hasManifest: false, problems };
+	}
+
+	if (manifest) {
+		problems.push(...compareArchiveManifest(manifest, found, unreadable));
+	}
+	return { files: found.size, hasManifest: manifest !== null, problems };
+}
+
+/**
+ * Checks the files of an extracted archive against its manifest.
+ * Returns null for archives from before manifests were recorded.
+ */
+async function verifyStagedArchive(
+	stagedDir: string,
+): Promise<string[] | null> {
+	let manifest: ArchiveManifest | null = null;
+	try {
+		manifest = parseArchiveManifest(
+			await Deno.readFile(join(stagedDir, ARCHIVE_MANIFEST_FILE)),
+		);
+	} catch (_e) {
+		return null;
+	}
+	if (!manifest) {
+		return [`${ARCHIVE_MANIFEST_FILE}: not a valid manifest`];
+	}
+	const found = new Map<string, { size: number; sha256: string }>();
+	for (const path of await listFilesRecursive(stagedDir)) {
+		const data = await Deno.readFile(join(stagedDir, path));
+		found.set(path, { size: data.length, sha256: await sha256Hex(data) });
+	}
+	return compareArchiveManifest(manifest, found);
+}
+
+/**
+ * Verifies an extracted archive before it is applied, printing what is wrong with it.
+ * Returns false if it is damaged.
+ */
+async function checkStagedArchive(
+	stagedDir: string,
+	archivePath: string,
+): Promise<boolean> {
+	console.log(chalk.gray("Verifying archive checksums..."));
+	const problems = await verifyStagedArchive(stagedDir);
+	if (problems === null) {
+		console.log(
+			chalk.gray(
+				"The archive has no manifest (it predates them), so it cannot be verified.",
+			),
+		);
+		return true;
+	}
+	if (problems.length > 0) {
+		console.error(
+			chalk.red(
+				`Error: ${
+					basename(archivePath)
+				} is damaged. Nothing was changed.`,
+			),
+		);
+		printVerifyProblems(problems);
+		return false;
+	}
+	return true;
+}
+
+/**
+ * Prints the problems found while verifying an archive, at most `limit` of them.
+ */
+function printVerifyProblems(problems: string[], limit = 10): void {
+	for (const problem of problems.slice(0, limit)) {
+		console.error(chalk.gray(`  ${problem}`));
+	}
+	if (problems.length > limit) {
+		console.error(chalk.gray(`  ...and ${problems.length - limit} more`));
+	}
+}
+
+/**
+ * Formats a byte count for display.
+ */
+function formatSize(bytes: number): string {
+	const units = ["B", "KiB", "MiB", "GiB"];
+	let value = bytes;
+	let unit = 0;
+	while (value >= 1024 && unit < units.length - 1) {
+		value /= 1024;
+		unit++;
+	}
+	return `${unit === 0 ? value : value.toFixed(1)} ${units[unit]}`;
+}
+
+/**
+ * Lists all regular files below a directory, as paths relative to it.
+ */
+async function listFilesRecursive(
+	dir: string,
+	prefix: string = "",
+): Promise<string[]> {
+	const files: string[] = [];
+	try {
+		for await (const entry of Deno.readDir(join(dir, prefix))) {
+			const relativePath = prefix ? join(prefix, entry.name) : entry.name;
+			if (entry.isDirectory) {
+				files.push(...(await listFilesRecursive(dir, relativePath)));
+			} else if (entry.isFile) {
+				files.push(relativePath);
+			}
+		}
+	} catch (_e) {
+		/* missing or unreadable directories simply contribute no files */
+	}
+	return files;
+}
+
+/**
+ * Parses `dconf dump` output into a map of absolute key paths to values.
+ */
+function parseDconfDump(
+	content: string,
+	root: string = DCONF_ROOT,
+): Map<string, string> {
+	const keys = new Map<string, string>();
+	let section = "";
+	for (const rawLine of content.split("\n")) {
+		const line = rawLine.trim();
+		if (line === "" || line.startsWith("#")) continue;
+		const sectionMatch = line.match(/^\[(.*)\]$/);
+		if (sectionMatch) {
+			section = sectionMatch[1] === "/" ? "" : `${sectionMatch[1]}/`;
+			continue;
+		}
+		const separator = line.indexOf("=");
+		if (separator === -1) continue;
+		keys.set(
+			`${root}${section}${line.substring(0, separator)}`,
+			line.substring(separator + 1),
+		);
+	}
+	return keys;
+}
+
+/**
+ * Normalizes a dconf path given by the user to the `/a/b/` form, or returns null if it is not valid.
+ * Path segments may not contain dots, as dots separate them in the dump file names.
+ */
+function normalizeDconfRoot(path: string): string | null {
+	let root = path.trim();
+	if (!root.startsWith("/")) root = `/${root}`;
+	if (!root.endsWith("/")) root = `${root}/`;
+	return /^\/(?:[A-Za-z0-9_-]+\/)+$/.test(root) ? root : null;
+}
+
+/**
+ * Name of the file holding the dump of a dconf root inside an archive,
+ * e.g. `org.nemo.dconf.ini` for `/org/nemo/`.
+ */
+function dconfDumpFileName(root: string): string {
+	return `${root.slice(1, -1).replaceAll("/", ".")}${DCONF_DUMP_SUFFIX}`;
+}
+
+function dconfRootFromFileName(name: string): string | null {
+	if (!name.endsWith(DCONF_DUMP_SUFFIX)) return null;
+	return normalizeDconfRoot(
+		name.slice(0, -DCONF_DUMP_SUFFIX.length).replaceAll(".", "/"),
+	);
+}
+
+/**
+ * Removes duplicates and roots that are already covered by a parent root.
+ */
+function simplifyDconfRoots(roots: string[]): string[] {
+	const unique = [...new Set(roots)];
+	return unique.filter((root) =>
+		!unique.some((other) => other !== root && root.startsWith(other))
+	);
+}
+
+/**
+ * Parses repeated `--dconf-path` options, exiting on an invalid path.
+ */
+function parseDconfPathOption(
+	paths: string[] | undefined,
+): string[] | undefined {
+	if (!paths || paths.length === 0) return undefined;
+	const roots = [];
+	for (const path of paths) {
+		const root = normalizeDconfRoot(path);
+		if (!root) {
+			console.error(chalk.red(`Error: Invalid dconf path "${path}".`));
+			Deno.exit(1);
+		}
+		roots.push(root);
+	}
+	return simplifyDconfRoots(roots);
+}
+
+/**
+ * The dconf key filters for a profile: its own lists where it has them, the configured ones otherwise.
+ */
+async function resolveDconfKeyFilters(
+	overrides?: Partial<DconfKeyFilters> | null,
+): Promise<DconfKeyFilters> {
+	const configured = (await readConfig()).dconfKeyFilters;
+	return {
+		include: overrides?.include ?? configured.include,
+		exclude: overrides?.exclude ?? configured.exclude,
+	};
+}
+
+/**
+ * Adds patterns to a profile's own filter lists. A list the profile does not
+ * have yet starts as a copy of the configured one.
+ */
+async function addDconfKeyFilterOverrides(
+	overrides: Partial<DconfKeyFilters> | null,
+	include: string[] = [],
+	exclude: string[] = [],
+): Promise<Partial<DconfKeyFilters> | null> {
+	if (include.length === 0 && exclude.length === 0) return overrides;
+	const effective = await resolveDconfKeyFilters(overrides);
+	const updated = { ...overrides };
+	if (include.length > 0) {
+		updated.include = [...new Set([...effective.include, ...include])];
+	}
+	if (exclude.length > 0) {
+		updated.exclude = [...new Set([...effective.exclude, ...exclude])];
+	}
+	return updated;
+}
+
+function hasDconfKeyFilters(filters: DconfKeyFilters | undefined): boolean {
+	return filters !== undefined &&
+		(filters.include.length > 0 || filters.exclude.length > 0);
+}
+
+function matchesAnyGlob(key: string, patterns: string[]): boolean {
+	return patterns.some((pattern) =>
+		globToRegExp(pattern, { extended: true, globstar: true }).test(key)
+	);
+}
+
+function isDconfKeyIncluded(key: string, filters: DconfKeyFilters): boolean {
+	return (filters.include.length === 0 ||
+		matchesAnyGlob(key, filters.include)) &&
+		!matchesAnyGlob(key, filters.exclude);
+}
+
+/**
+ * Turns a map of absolute key paths (as returned by parseDconfDump) back into `dconf load` input.
+ */
+function serializeDconfDump(keys: Map<string, string>, root: string): string {
+	const sections = new Map<string, string[]>();
+	for (const [key, value] of keys) {
+		const relative = key.substring(root.length);
+		const slash = relative.lastIndexOf("/");
+		const section = slash === -1 ? "/" : relative.substring(0, slash);
+		const lines = sections.get(section) ?? [];
+		lines.push(`${relative.substring(slash + 1)}=${value}`);
+		sections.set(section, lines);
+	}
+	return [...sections]
+		.map(([section, lines]) => `[${section}]\n${lines.join("\n")}\n`)
+		.join("\n");
+}
+
+/**
+ * Keeps only the keys of a `dconf dump` for which `keep` returns true.
+ */
+function filterDconfDump(
+	content: string,
+	root: string,
+	keep: (key: string) => boolean,
+): Map<string, string> {
+	return new Map(
+		[...parseDconfDump(content, root)].filter(([key]) => keep(key)),
+	);
+}
+
+/**
+ * The dconf roots to capture: the ones given in the options, or the configured defaults.
+ */
+async function captureDconfRoots(
+	options?: ComponentOptions,
+): Promise<string[]> {
+	if (options?.dconfRoots) return options.dconfRoots;
+	const configured = (await readConfig()).dconfRoots
+		.map(normalizeDconfRoot)
+		.filter((root): root is string => root !== null);
+	return simplifyDconfRoots(configured);
+}
+
+/**
+ * Dumps each dconf root to its own file in the target directory, leaving out
+ * keys outside the given filters.
+ */
+async function dumpDconfSettings(
+	targetDir: string,
+	roots: string[],
+	filters?: DconfKeyFilters,
+): Promise<void> {
+	for (const root of roots) {
+		const dconfDumpPath = join(targetDir, dconfDumpFileName(root));
+		console.log(
+			chalk.gray(
+				`Dumping dconf settings for ${root} to ${
+					basename(dconfDumpPath)
+				}...`,
+			),
+		);
+		const dconfDumpResult = await executeCommand("dconf", ["dump", root]);
+		if (dconfDumpResult.success) {
+			await Deno.writeTextFile(
+				dconfDumpPath,
+				filters && hasDconfKeyFilters(filters)
+					? serializeDconfDump(
+						filterDconfDump(
+							dconfDumpResult.stdout,
+							root,
+							(key) => isDconfKeyIncluded(key, filters),
+						),
+						root,
+					)
+					: dconfDumpResult.stdout,
+			);
+		} else {
+			console.warn(
+				chalk.yellow(
+					`Warning: Failed to dump dconf settings for ${root}. They will not be included.`,
+				),
+			);
+			console.warn(chalk.gray(`dconf stderr: ${dconfDumpResult.stderr}`));
+		}
+	}
+}
+
+/**
+ * Finds the dconf dumps stored in an extracted archive, keyed by root.
+ * Archives made by older versions only contain `org.cinnamon.dconf.ini`.
+ */
+async function listDconfDumps(dir: string): Promise<Map<string, string>> {
+	const dumps = new Map<string, string>();
+	try {
+		for await (const entry of Deno.readDir(dir)) {
+			const root = entry.isFile
+				? dconfRootFromFileName(entry.name)
+				: null;
+			if (root) dumps.set(root, join(dir, entry.name));
+		}
+	} catch (_e) {
+		/* a missing directory has no dumps */
+	}
+	return dumps;
+}
+
+/**
+ * Reads the uuids of the enabled spices of a kind, with their dconf entries, from a dump of /org/cinnamon/.
+ */
+function parseEnabledSpices(
+	cinnamonKeys: Map<string, string>,
+	kind: "applets" | "desklets" | "extensions",
+): Map<string, string[]> {
+	const enabled = new Map<string, string[]>();
+	// entries look like 'panel1:right:0:menu@cinnamon.org:0' for applets and start with the uuid otherwise
+	const value = cinnamonKeys.get(`${DCONF_ROOT}enabled-${kind}`) ?? "";
+	for (const [, entry] of value.matchAll(/'([^']*)'/g)) {
+		const uuid = entry.split(":")[kind === "applets" ? 3 : 0];
+		if (uuid) enabled.set(uuid, [...(enabled.get(uuid) ?? []), entry]);
+	}
+	return enabled;
+}
+
+/**
+ * Reads the name and version of a spice from the first metadata.json found below its directory.
+ */
+async function readSpiceMetadata(
+	dirs: string[],
+): Promise<{ name: string | null; version: string | null } | null> {
+	for (const dir of dirs) {
+		try {
+			const metadata = JSON.parse(
+				await Deno.readTextFile(join(dir, "metadata.json")),
+			);
+			return {
+				name: typeof metadata.name === "string" ? metadata.name : null,
+				version: metadata.version != null
+					? String(metadata.version)
+					: null,
+			};
+		} catch (_e) {
+			/* no readable metadata here */
+		}
+	}
+	return null;
+}
+
+/**
+ * Lists the spices a staged profile depends on: everything installed in it plus everything enabled in its dconf dump.
+ * The enabled spices are read from the live settings if the archive holds no dump of /org/cinnamon/.
+ */
+async function buildSpiceManifest(stagedDir: string): Promise<SpiceManifest> {
+	const cinnamonDump = (await listDconfDumps(stagedDir)).get(DCONF_ROOT);
+	let dump = "";
+	if (cinnamonDump) {
+		dump = await Deno.readTextFile(cinnamonDump);
+	} else {
+		const result = await executeCommand("dconf", ["dump", DCONF_ROOT]);
+		if (result.success) dump = result.stdout;
+	}
+	const cinnamonKeys = parseDconfDump(dump, DCONF_ROOT);
+
+	const spices: SpiceEntry[] = [];
+	for (const kind of SPICE_KINDS) {
+		const bundled =
+			(await listDirectoryNames(join(stagedDir, "share", kind))) ??
+				new Set<string>();
+		const enabled = parseEnabledSpices(cinnamonKeys, kind);
+		for (const uuid of new Set([...bundled, ...enabled.keys()])) {
+			const isBundled = bundled.has(uuid);
+			const metadata = await readSpiceMetadata(
+				isBundled
+					? [join(stagedDir, "share", kind, uuid)]
+					: [join(CINNAMON_PATHS.SYSTEM_SHARE_DIR, kind, uuid)],
+			);
+			spices.push({
+				uuid,
+				type: kind,
+				name: metadata?.name ?? null,
+				version: metadata?.version ?? null,
+				instances: enabled.get(uuid) ?? [],
+				bundled: isBundled,
+			});
+		}
+	}
+
+	// Cinnamon themes are the theme directories that contain a cinnamon/ subdirectory
+	const themeName = (cinnamonKeys.get(`${DCONF_ROOT}theme/name`) ?? "")
+		.replace(/^'|'$/g, "");
+	const themes = new Set<string>();
+	for (
+		const name
+			of (await listDirectoryNames(join(stagedDir, "user-themes"))) ?? []
+	) {
+		if (await exists(join(stagedDir, "user-themes", name, "cinnamon"))) {
+			themes.add(name);
+		}
+	}
+	if (themeName) themes.add(themeName);
+	for (const name of themes) {
+		const isBundled = await exists(join(stagedDir, "user-themes", name));
+		const themeDir = isBundled
+			? join(stagedDir, "user-themes", name)
+			: join(THEME_PATHS.SYSTEM_THEMES_DIR, name);
+		const metadata = await readSpiceMetadata([
+			themeDir,
+			join(themeDir, "cinnamon"),
+		]);
+		spices.push({
+			uuid: name,
+			type: "themes",
+			name: metadata?.name ?? null,
+			version: metadata?.version ?? null,
+			instances: name === themeName ? [name] : [],
+			bundled: isBundled,
+		});
+	}
+
+	spices.sort((a, b) =>
+		a.type.localeCompare(b.type) || a.uuid.localeCompare(b.uuid)
+	);
+	return { version: 1, createdAt: new Date().toISOString(), spices };
+}
+
+/**
+ * Records the spice manifest in a staged profile before it is archived.
+ */
+async function writeSpiceManifest(stagedDir: string): Promise<void> {
+	console.log(chalk.gray("Recording installed and enabled spices..."));
+	const manifest = await buildSpiceManifest(stagedDir);
+	await Deno.writeTextFile(
+		join(stagedDir, SPICE_MANIFEST_FILE),
+		JSON.stringify(manifest, null, 2),
+	);
+}
+
+/**
+ * Reads the spice manifest of an archive, or null for archives captured before manifests were recorded.
+ */
+async function readSpiceManifest(
+	archivePath: string,
+): Promise<SpiceManifest | null> {
+	try {
+		const content = await readArchiveEntry(
+			archivePath,
+			SPICE_MANIFEST_FILE,
+		);
+		return content
+			? JSON.parse(new TextDecoder().decode(content)) as SpiceManifest
+			: null;
+	} catch (_e) {
+		return null;
+	}
+}
+
+/**
+ * Finds the enabled spices of a manifest that are neither bundled in the archive nor installed system-wide.
+ * Spices in ~/.local/share/cinnamon do not count, as a switch replaces that directory with the archive's copy.
+ */
+async function findMissingSpices(
+	manifest: SpiceManifest,
+): Promise<SpiceEntry[]> {
+	const missing: SpiceEntry[] = [];
+	for (const spice of manifest.spices) {
+		if (spice.instances.length === 0 || spice.bundled) continue;
+		const systemDirs = spice.type === "themes"
+			? [
+				join(THEME_PATHS.USER_THEMES_DIR, spice.uuid),
+				join(THEME_PATHS.SYSTEM_THEMES_DIR, spice.uuid),
+			]
+			: [join(CINNAMON_PATHS.SYSTEM_SHARE_DIR, spice.type, spice.uuid)];
+		if (
+			!(await Promise.all(systemDirs.map((dir) => exists(dir)))).some(
+				Boolean,
+			)
+		) {
+			missing.push(spice);
+		}
+	}
+	return missing;
+}
+
+/**
+ * Print a styled header for the application
+ */
+function printHeader(): void {
+	console.log(chalk.cyan("Cinnamon Profile Manager") + " v" + VERSION);
+	console.log(
+		chalk.gray("Manage and switch between Cinnamon desktop profiles"),
+	);
+	console.log("");
+}
+
+/**
+ * List available profiles
+ */
+async function listProfiles(options: ListOptions = {}): Promise<void> {
+	console.log(chalk.yellow("Available Profiles:"));
+	const allProfiles = await readProfiles();
+	const tagFilter = normalizeTags(options.tag ?? []);
+	const profiles = allProfiles.filter((p) =>
+		tagFilter.every((tag) => p.tags.includes(tag))
+	);
+	if (options.sort) {
+		const sortKey = options.sort;
+		const dateOf = (p: Profile): number => {
+			const value = sortKey === "created"
+				? p.createdAt
+				: sortKey === "updated"
+				? p.updatedAt
+				: p.lastActivatedAt;
+			return value ? new Date(value).getTime() : 0;
+		};
+		profiles.sort((a, b) =>
+			sortKey === "name"
+				? a.name.localeCompare(b.name)
+				: dateOf(b) - dateOf(a) // most recent first
+		);
+	}
+
+	if (RUNTIME_FLAGS.json) {
+		const entries = [];
+		for (const profile of profiles) {
+			entries.push({
+				...profile,
+				size: await getArchiveSize(profile.zipFile),
+			});
+		}
+		setJsonResult({ profiles: entries });
+		return;
+	}
+
+	if (profiles.length === 0) {
+		console.log(
+			chalk.gray(
+				allProfiles.length === 0
+					? "No profiles created yet. Use 'create <name>' to make one."
+					: `No profiles tagged ${tagFilter.join(", ")}.`,
+			),
+		);
+		return;
+	}
+
+	const table = new Table()
+		.header([
+			"Name",
+			"Status",
+			"Tags",
+			"Updated",
+			"Last Activated",
+			"Description",
+		])
+		.padding(2)
+		.border(true);
+	for (const profile of profiles) {
+		table.push([
+			profile.name,
+			profile.active ? chalk.green("Active") : "Inactive",
+			profile.tags.join(", "),
+			new Date(profile.updatedAt).toLocaleString(),
+			profile.lastActivatedAt
+				? new Date(profile.lastActivatedAt).toLocaleString()
+				: chalk.gray("never"),
+			truncateForDisplay(profile.description, 40),
+		]);
+	}
+	console.log(table.toString());
+	console.log(
+		chalk.gray(`Use ${PROGRAM_NAME} switch <name> to switch profiles`),
+	);
+}
+
+/**
+ * Parses the timestamp embedded in a backup filename.
+ */
+function parseBackupDate(filename: string): Date | null {
+	const dateMatch = filename.match(
+		/(\d{4}-\d{2}-\d{2}T\d{2}-\d{2}-\d{2}-\d{3}Z)(\.zip|\.snapshot\.json)$/,
+	);
+	if (!dateMatch) {
+		return null;
+	}
+	const datePart = dateMatch[1];
+	const isoStr = datePart.substring(0, 13) +
+		":" +
+		datePart.substring(14, 16) +
+		":" +
+		datePart.substring(17, 19) +
+		"." +
+		datePart.substring(20, 23) +
+		"Z";
+	const date = new Date(isoStr);
+	return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Reads the backup files in a single backup directory.
+ */
+async function readBackupDir(
+	dir: string,
+	type: BackupFile["type"],
+): Promise<BackupFile[]> {
+	const files: BackupFile[] = [];
+	if (!(await exists(dir))) {
+		return files;
+	}
+	for await (const dirEntry of Deno.readDir(dir)) {
+		if (
+			dirEntry.isFile &&
+			(dirEntry.name.endsWith(".zip") || isSnapshotFile(dirEntry.name))
+		) {
+			files.push({
+				filename: dirEntry.name,
+				date: parseBackupDate(dirEntry.name),
+				fullPath: join(dir, dirEntry.name),
+				type,
+			});
+		}
+	}
+	return files;
+}
+
+/**
+ * Sorts backup files newest first, with undated files last.
+ */
+function sortBackupFiles(files: BackupFile[]): BackupFile[] {
+	return files.sort((a, b) => {
+		if (!a.date && !b.date) return a.filename.localeCompare(b.filename); // fallback sort by name
+		if (!a.date) return 1;
+		if (!b.date) return -1;
+		return b.date.getTime() - a.date.getTime(); // newest first
+	});
+}
+
+/**
+ * Reads all manual, automatic and scheduled backup files, newest first.
+ */
+async function readBackupFiles(): Promise<BackupFile[]> {
+	return sortBackupFiles([
+		...(await readBackupDir(APP_PATHS.BACKUP_DIR, "Manual")),
+		...(await readBackupDir(APP_PATHS.AUTO_BACKUP_DIR, "Auto")),
+		...(await readBackupDir(APP_PATHS.SCHEDULED_BACKUP_DIR, "Scheduled")),
+	]);
+}
+
+/**
+ * Returns the key of the daily/weekly/monthly bucket a date falls into (local time).
+ */
+function retentionBucketKey(
+	date: Date,
+	bucket: "daily" | "weekly" | "monthly",
+): string {
+	const month = String(date.getMonth() + 1).padStart(2, "0");
+	if (bucket === "monthly") {
+		return `${date.getFullYear()}-${month}`;
+	}
+	if (bucket === "daily") {
+		return `${date.getFullYear()}-${month}-${
+			String(date.getDate()).padStart(2, "0")
+		}`;
+	}
+	// ISO week: the thursday of the week decides the year
+	const thursday = new Date(
+		date.getFullYear(),
+		date.getMonth(),
+		date.getDate() + 3 - ((date.getDay() + 6) % 7),
+	);
+	const firstThursday = new Date(thursday.getFullYear(), 0, 4);
+	const week = 1 +
+		Math.round(
+			((thursday.getTime() - firstThursday.getTime()) / 86400000 -
+				3 + ((firstThursday.getDay() + 6) % 7)) / 7,
+		);
+	return `${thursday.getFullYear()}-W${String(week).padStart(2, "0")}`;
+}
+
+/**
+ * Selects the backups a retention policy does not keep.
+ * Undated backups and the newest backup are never selected.
+ */
+function selectBackupsToPrune(
+	files: BackupFile[],
+	policy: RetentionPolicy,
+): BackupFile[] {
+	const dated = sortBackupFiles(files.filter((f) => f.date !== null));
+	const keep = new Set<BackupFile>(
+		dated.slice(0, Math.max(1, policy.keepLast)),
+	);
+
+	const buckets: [number, "daily" | "weekly" | "monthly"][] = [
+		[policy.keepDaily, "daily"],
+		[policy.keepWeekly, "weekly"],
+		[policy.keepMonthly, "monthly"],
+	];
+	for (const [count, bucket] of buckets) {
+		const seen = new Set<string>();
+		for (const file of dated) {
+			if (seen.size >= count) break;
+			const key = retentionBucketKey(file.date!, bucket);
+			if (!seen.has(key)) {
+				seen.add(key);
+				keep.add(file); // newest backup of the bucket
+			}
+		}
+	}
+
+	return dated.filter((f) => !keep.has(f));
+}
+
+/**
+ * Applies the configured retention policy to a backup directory.
+ * Returns the backups that were (or, with `dryRun`, would be) removed.
+ */
+async function pruneBackupDir(
+	type: BackupFile["type"],
+	dryRun: boolean = false,
+): Promise<BackupFile[]> {
+	const config = await readConfig();
+	const [dir, policy] = type === "Manual"
+		? [APP_PATHS.BACKUP_DIR, config.retention.manual]
+		: type === "Auto"
+		? [APP_PATHS.AUTO_BACKUP_DIR, config.retention.auto]
+		: [APP_PATHS.SCHEDULED_BACKUP_DIR, config.retention.scheduled];
+
+	const toPrune = selectBackupsToPrune(
+		await readBackupDir(dir, type),
+		policy,
+	);
+	if (dryRun) {
+		return toPrune;
+	}
+
+	const removed: BackupFile[] = [];
+	for (const file of toPrune) {
+		try {
+			await Deno.remove(file.fullPath);
+			removed.push(file);
+		} catch (error) {
+			console.warn(
+				chalk.yellow(
+					`Warning: Failed to remove old backup ${file.filename}: ${
+						error instanceof Error ? error.message : "Unknown error"
+					}`,
+				),
+			);
+		}
+	}
+	if (removed.length > 0) {
+		await collectGarbageAndReport();
+	}
+	return removed;
+}
+
+/**
+ * List all available backup files
+ */
+async function listBackups(): Promise<void> {
+	console.log(chalk.yellow("Available Backup Files:"));
+
+	if (
+		!(await exists(APP_PATHS.BACKUP_DIR)) &&
+		!(await exists(APP_PATHS.AUTO_BACKUP_DIR)) &&
+		!(await exists(APP_PATHS.SCHEDULED_BACKUP_DIR))
+	) {
+		console.log(
+			chalk.gray("No backup directories found. No backups available."),
+		);
+		setJsonResult({ backups: [] });
+		return;
+	}
+
+	const filesWithDates = await readBackupFiles();
+
+	if (RUNTIME_FLAGS.json) {
+		const entries = [];
+		for (const { filename, date, fullPath, type } of filesWithDates) {
+			entries.push({
+				filename,
+				type: type.toLowerCase(),
+				date: date ? date.toISOString() : null,
+				path: fullPath,
+				size: await getArchiveSize(fullPath),
+			});
+		}
+		setJsonResult({ backups: entries });
+		return;
+	}
+
+	if (filesWithDates.length === 0) {
+		console.log(
+			chalk.gray("No backup files found in the backup directories."),
+		);
+		return;
+	}
+
+	const table = new Table()
+		.header(["Backup File", "Date", "Type", "Path"])
+		.padding(2)
+		.border(true);
+
+	for (const { filename, date, type, fullPath } of filesWithDates) {
+		table.push([
+			filename,
+			date ? date.toLocaleString() : "Unknown",
+			type,
+			fullPath,
+		]);
+	}
+
+	console.log(table.toString());
+	console.log(
+		chalk.gray(`Use ${PROGRAM_NAME} restore to restore from a backup`),
+	);
+}
+
+/**
+ * Remove old backups according to the configured retention policy.
+ */
+async function pruneBackupsCmd(options: { dryRun?: boolean }): Promise<void> {
+	const dryRun = options.dryRun === true;
+	console.log(
+		chalk.yellow(
+			dryRun
+				? "Backups that would be removed by the retention policy:"
+				: "Pruning backups according to the retention policy...",
+		),
+	);
+
+	const pruned = [
+		...(await pruneBackupDir("Manual", dryRun)),
+		...(await pruneBackupDir("Auto", dryRun)),
+		...(await pruneBackupDir("Scheduled", dryRun)),
+	];
+	setJsonResult({
+		dryRun,
+		removed: pruned.map(({ filename, date, fullPath, type }) => ({
+			filename,
+			type: type.toLowerCase(),
+			date: date ? date.toISOString() : null,
+			path: fullPath,
+		})),
+	});
+	if (pruned.length === 0) {
+		console.log(chalk.green("Nothing to prune."));
+		return;
+	}
+
+	const table = new Table()
+		.header(["Backup File", "Date", "Type"])
+		.padding(2)
+		.border(true);
+	for (const { filename, date, type } of pruned) {
+		table.push([filename, date ? date.toLocaleString() : "Unknown", type]);
+	}
+	console.log(table.toString());
+	console.log(
+		dryRun
+			? chalk.gray(
+				`${pruned.length} backup(s) would be removed. Run without --dry-run to remove them.`,
+			)
+			: chalk.green(`Removed ${pruned.length} backup(s).`),
+	);
+	console.log(
+		chalk.gray(
+			`Retention settings can be changed in ${APP_PATHS.CONFIG_FILE}`,
+		),
+	);
+}
+
+/**
+ * Create a new profile based on the current settings
+ */
+async function createProfile(
+	name: string,
+	options: CommandOptions,
+): Promise<void> {
+	console.log(chalk.yellow(`Creating new profile: ${name}`));
+	let profiles = await readProfiles();
+	if (profiles.some((p) => p.name === name)) {
+		console.error(
+			chalk.red(`Error: Profile with name "${name}" already exists.`),
+		);
+		Deno.exit(1);
+	}
+
+	const componentOptions: ComponentOptions = {
+		userThemes: options.userThemes !== false,
+		systemThemes: options.addSystemThemes === true,
+		userIcons: options.userIconsLocal !== false,
+		userIconsAlt: options.userIconsHome !== false,
+		systemIcons: options.addSystemIcons === true,
+		userFonts: options.userFontsLocal !== false,
+		userFontsAlt: options.userFontsHome !== false,
+		systemFonts: options.addSystemFonts === true,
+		dconf: options.dconf !== false,
+		dconfRoots: parseDconfPathOption(options.dconfPath),
+	};
+	componentOptions.dconfRoots = await captureDconfRoots(componentOptions);
+	const keyFilterOverrides = await addDconfKeyFilterOverrides(
+		null,
+		options.includeKey,
+		options.excludeKey,
+	);
+	componentOptions.dconfKeyFilters = await resolveDconfKeyFilters(
+		keyFilterOverrides,
+	);
+
+	const success = await withTempDir(
+		{ prefix: "cinnamon-profile-" },
+		async (tempDir) => {
+			const tempShareDir = join(tempDir, "share");
+			const tempConfigDir = join(tempDir, "config");
+
+			console.log(
+				chalk.gray("Copying current Cinnamon file-based settings..."),
+			);
+			await copyDirectoryContents(
+				CINNAMON_PATHS.SHARE_DIR_ABSOLUTE,
+				tempShareDir,
+			);
+			await copyDirectoryContents(
+				CINNAMON_PATHS.CONFIG_DIR_ABSOLUTE,
+				tempConfigDir,
+			);
+
+			// copy themes, icons, and fonts
+			await copyThemeIconAndFontDirectories(tempDir, componentOptions);
+
+			// dump dconf settings
+			if (componentOptions.dconf) {
+				await dumpDconfSettings(
+					tempDir,
+					await captureDconfRoots(componentOptions),
+					componentOptions.dconfKeyFilters,
+				);
+			} else {
+				console.log(
+					chalk.gray("Skipping dconf settings (disabled by option)."),
+				);
+			}
+			await writeSpiceManifest(tempDir);
+			await writeArchiveManifest(tempDir, componentOptions);
+
+			const zipFile = join(
+				APP_PATHS.CUSTOM_PROFILES_ROOT_DIR,
+				`${name}-${crypto.randomUUID()}${SNAPSHOT_EXTENSION}`,
+			);
+			console.log(chalk.gray(`Zipping profile to ${zipFile}...`));
+			if (!(await zipDirectoryContents(tempDir, zipFile))) {
+				return false;
+			}
+
+			profiles = await readProfiles();
+			profiles.forEach((p) => (p.active = false));
+			const now = new Date().toISOString();
+			profiles.push({
+				name: name,
+				active: true,
+				zipFile: zipFile,
+				description: options.description?.trim() ?? "",
+				tags: normalizeTags(options.tag ?? []),
+				createdAt: now,
+				updatedAt: now,
+				lastActivatedAt: now,
+				components: componentOptions,
+				cinnamonVersion: await getCinnamonVersion(),
+				dconfKeyFilters: keyFilterOverrides,
+			});
+			await writeProfiles(profiles);
+			return true;
+		},
+	);
+
+	if (success) {
+		const created = (await readProfiles()).find((p) => p.name === name);
+		setJsonResult({ profile: name, zipFile: created?.zipFile });
+		console.log(chalk.green("Profile created and activated successfully"));
+	} else {
+		console.error(chalk.red("Profile creation failed."));
+		Deno.exit(1);
+	}
+}
+
+/**
+ * Checks whether a staged backup holds the same files as an existing archive,
+ * going by their checksums. spices.json is left out as it records when it was made.
+ */
+async function isUnchangedSince(
+	stagedDir: string,
+	archivePath: string,
+): Promise<boolean> {
+	const previousContent = await readArchiveEntry(
+		archivePath,
+		ARCHIVE_MANIFEST_FILE,
+	).catch(() => null);
+	const previous = previousContent
+		? parseArchiveManifest(previousContent)
+		: null;
+	const current = parseArchiveManifest(
+		await Deno.readFile(join(stagedDir, ARCHIVE_MANIFEST_FILE)),
+	);
+	if (!previous || !current) {
+		return false;
+	}
+	const fingerprint = (manifest: ArchiveManifest) =>
+		manifest.files
+			.filter((f) => f.path !== SPICE_MANIFEST_FILE)
+			.map((f) => `${f.path}\0${f.sha256}`)
+			.sort()
+			.join("\n");
+	return fingerprint(previous) === fingerprint(current);
+}
+
+/**
+ * Creates a backup of current Cinnamon settings with a timestamp.
+ * @param targetDir - The directory to save the backup to.
+ * @param prefix - Prefix for the backup filename.
+ * @param unchangedFrom - Previous backup to compare with; if nothing changed since, no backup is written.
+ * @returns Path to the created backup file (or `unchangedFrom` if skipped), or null on failure.
+ */
+async function createTimestampedBackup(
+	targetDir: string,
+	prefix: string = "backup",
+	options?: ComponentOptions,
+	unchangedFrom: string | null = null,
+): Promise<string | null> {
+	const componentOptions: ComponentOptions = options || {
+		userThemes: true,
+		systemThemes: true,
+		userIcons: true,
+		userIconsAlt: true,
+		systemIcons: true,
+		userFonts: true,
+		userFontsAlt: true,
+		systemFonts: true,
+		dconf: true,
+	};
+
+	if (!(await exists(targetDir))) {
+		await Deno.mkdir(targetDir, { recursive: true });
+	}
+	const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
+	const backupFile = join(
+		targetDir,
+		`${prefix}-${timestamp}${SNAPSHOT_EXTENSION}`,
+	);
+
+	const success = await withTempDir(
+		{ prefix: "cinnamon-backup-" },
+		async (tempDir) => {
+			const tempShareDir = join(tempDir, "share");
+			const tempConfigDir = join(tempDir, "config");
+
+			console.log(
+				chalk.gray(
+					"Copying current Cinnamon file-based settings for backup...",
+				),
+			);
+			await copyDirectoryContents(
+				CINNAMON_PATHS.SHARE_DIR_ABSOLUTE,
+				tempShareDir,
+			);
+			await copyDirectoryContents(
+				CINNAMON_PATHS.CONFIG_DIR_ABSOLUTE,
+				tempConfigDir,
+			);
+
+			// copy themes, icons, and fonts for backup
+			await copyThemeIconAndFontDirectories(tempDir, componentOptions);
+
+			// dump dconf settings for backup
+			if (componentOptions.dconf) {
+				await dumpDconfSettings(
+					tempDir,
+					await captureDconfRoots(componentOptions),
+					componentOptions.dconfKeyFilters,
+				);
+			} else {
+				console.log(
+					chalk.gray(
+						"Skipping dconf settings backup (disabled by option).",
+					),
+				);
+			}
+			await writeSpiceManifest(tempDir);
+			await writeArchiveManifest(tempDir, componentOptions);
+
+			if (
+				unchangedFrom && await isUnchangedSince(tempDir, unchangedFrom)
+			) {
+				return "unchanged";
+			}
+
+			console.log(chalk.gray(`Zipping backup to ${backupFile}...`));
+			return await zipDirectoryContents(tempDir, backupFile);
+		},
+	);
+
+	if (!success) {
+		return null;
+	}
+	if (success === "unchanged") {
+		return unchangedFrom;
+	}
+
+	// enforce the retention policy of the backup category
+	const type = targetDir === APP_PATHS.BACKUP_DIR
+		? "Manual"
+		: targetDir === APP_PATHS.AUTO_BACKUP_DIR
+		? "Auto"
+		: targetDir === APP_PATHS.SCHEDULED_BACKUP_DIR
+		? "Scheduled"
+		: null;
+	if (type) {
+		const removed = await pruneBackupDir(type);
+		if (removed.length > 0) {
+			console.log(
+				chalk.gray(
+					`Removed ${removed.length} old ${type.toLowerCase()} backup(s) per retention policy.`,
+				),
+			);
+		}
+	}
+	return backupFile;
+}
+
+/**
+ * Copies theme directories from both user and system locations
+ */
+async function copyThemeDirectories(
+	tempDir: string,
+	options: ComponentOptions,
+): Promise<void> {
+	if (options.userThemes) {
+		const tempUserThemesDir = join(tempDir, "user-themes");
+		console.log(chalk.gray("Copying user themes from ~/.themes..."));
+		if (await exists(THEME_PATHS.USER_THEMES_DIR)) {
+			await copyDirectoryContents(
+				THEME_PATHS.USER_THEMES_DIR,
+				tempUserThemesDir,
+			);
+		} else {
+			console.log(
+				chalk.gray("No user themes directory found, skipping."),
+			);
+		}
+	} else {
+		console.log(chalk.gray("Skipping user themes (disabled by option)."));
+	}
+
+	if (options.systemThemes) {
+		const tempSystemThemesDir = join(tempDir, "system-themes");
+		console.log(
+			chalk.gray("Copying system themes from /usr/share/themes..."),
+		);
+		if (await exists(THEME_PATHS.SYSTEM_THEMES_DIR)) {
+			try {
+				await copyDirectoryContents(
+					THEME_PATHS.SYSTEM_THEMES_DIR,
+					tempSystemThemesDir,
+				);
+			} catch (error) {
+				console.warn(
+					chalk.yellow(
+						`Warning: Could not copy system themes (permission issue?): ${
+							error instanceof Error
+								? error.message
+								: "Unknown error"
+						}`,
+					),
+				);
+			}
+		} else {
+			console.log(
+				chalk.gray("No system themes directory found, skipping."),
+			);
+		}
+	} else {
+		console.log(chalk.gray("Skipping system themes (not enabled)."));
+	}
+}
+
+/**
+ * Copies icon directories from user and system locations
+ */
+async function copyIconDirectories(
+	tempDir: string,
+	options: ComponentOptions,
+): Promise<void> {
+	if (options.userIcons) {
+		const tempUserIconsDir = join(tempDir, "user-icons");
+		console.log(
+			chalk.gray("Copying user icons from ~/.local/share/icons..."),
+		);
+		if (await exists(ICON_PATHS.USER_ICONS_DIR)) {
+			await copyDirectoryContents(
+				ICON_PATHS.USER_ICONS_DIR,
+				tempUserIconsDir,
+			);
+		} else {
+			console.log(chalk.gray("No user icons directory found, skipping."));
+		}
+	} else {
+		console.log(
+			chalk.gray(
+				"Skipping user icons from ~/.local/share/icons (disabled by option).",
+			),
+		);
+	}
+
+	if (options.userIconsAlt) {
+		const tempUserIconsAltDir = join(tempDir, "user-icons-alt");
+		console.log(chalk.gray("Copying user icons from ~/.icons..."));
+		if (await exists(ICON_PATHS.USER_ICONS_ALT_DIR)) {
+			await copyDirectoryContents(
+				ICON_PATHS.USER_ICONS_ALT_DIR,
+				tempUserIconsAltDir,
+			);
+		} else {
+			console.log(chalk.gray("No ~/.icons directory found, skipping."));
+		}
+	} else {
+		console.log(
+			chalk.gray(
+				"Skipping user icons from ~/.icons (disabled by option).",
+			),
+		);
+	}
+
+	if (options.systemIcons) {
+		const tempSystemIconsDir = join(tempDir, "system-icons");
+		console.log(
+			chalk.gray("Copying system icons from /usr/share/icons..."),
+		);
+		if (await exists(ICON_PATHS.SYSTEM_ICONS_DIR)) {
+			try {
+				await copyDirectoryContents(
+					ICON_PATHS.SYSTEM_ICONS_DIR,
+					tempSystemIconsDir,
+				);
+			} catch (error) {
+				console.warn(
+					chalk.yellow(
+						`Warning: Could not copy system icons (permission issue?): ${
+							error instanceof Error
+								? error.message
+								: "Unknown error"
+						}`,
+					),
+				);
+			}
+		} else {
+			console.log(
+				chalk.gray("No system icons directory found, skipping."),
+			);
+		}
+	} else {
+		console.log(chalk.gray("Skipping system icons (not enabled)."));
+	}
+}
+
+/**
+ * Copies font directories from user and system locations
+ */
+async function copyFontDirectories(
+	tempDir: string,
+	options: ComponentOptions,
+): Promise<void> {
+	if (options.userFonts) {
+		const tempUserFontsDir = join(tempDir, "user-fonts");
+		console.log(
+			chalk.gray("Copying user fonts from ~/.local/share/fonts..."),
+		);
+		if (await exists(FONT_PATHS.USER_FONTS_DIR)) {
+			await copyDirectoryContents(
+				FONT_PATHS.USER_FONTS_DIR,
+				tempUserFontsDir,
+			);
+		} else {
+			console.log(chalk.gray("No user fonts directory found, skipping."));
+		}
+	} else {
+		console.log(
+			chalk.gray(
+				"Skipping user fonts from ~/.local/share/fonts (disabled by option).",
+			),
+		);
+	}
+
+	if (options.userFontsAlt) {
+		const tempUserFontsAltDir = join(tempDir, "user-fonts-home");
+		console.log(chalk.gray("Copying user fonts from ~/.fonts..."));
+		if (await exists(FONT_PATHS.USER_FONTS_ALT_DIR)) {
+			await copyDirectoryContents(
+				FONT_PATHS.USER_FONTS_ALT_DIR,
+				tempUserFontsAltDir,
+			);
+		} else {
+			console.log(chalk.gray("No ~/.fonts directory found, skipping."));
+		}
+	} else {
+		console.log(
+			chalk.gray(
+				"Skipping user fonts from ~/.fonts (disabled by option).",
+			),
+		);
+	}
+
+	if (options.systemFonts) {
+		const tempSystemFontsDir = join(tempDir, "system-fonts");
+		console.log(
+			chalk.gray("Copying system fonts from /usr/share/fonts..."),
+		);
+		if (await exists(FONT_PATHS.SYSTEM_FONTS_DIR)) {
+			try {
+				await copyDirectoryContents(
+					FONT_PATHS.SYSTEM_FONTS_DIR,
+					tempSystemFontsDir,
+				);
+			} catch (error) {
+				console.warn(
+					chalk.yellow(
+						`Warning: Could not copy system fonts (permission issue?): ${
+							error instanceof Error
+								? error.message
+								: "Unknown error"
+						}`,
+					),
+				);
+			}
+		} else {
+			console.log(
+				chalk.gray("No system fonts directory found, skipping."),
+			);
+		}
+	} else {
+		console.log(chalk.gray("Skipping system fonts (not enabled)."));
+	}
+}
+
+/**
+ * Copies theme, icon, and font directories from both user and system locations
+ */
+async function copyThemeIconAndFontDirectories(
+	tempDir: string,
+	options: ComponentOptions,
+): Promise<void> {
+	await copyThemeDirectories(tempDir, options);
+	await copyIconDirectories(tempDir, options);
+	await copyFontDirectories(tempDir, options);
+}
+
+/**
+ * Restores theme directories to both user and system locations
+ */
+async function restoreThemeDirectories(
+	tempDir: string,
+	options: ComponentOptions,
+): Promise<void> {
+	if (options.userThemes) {
+		const tempUserThemesDir = join(tempDir, "user-themes");
+		console.log(chalk.gray("Restoring user themes to ~/.themes..."));
+		if (await exists(tempUserThemesDir)) {
+			// ensure user themes directory exists
+			await Deno.mkdir(THEME_PATHS.USER_THEMES_DIR, { recursive: true });
+			await copyDirectoryContents(
+				tempUserThemesDir,
+				THEME_PATHS.USER_THEMES_DIR,
+				true,
+			);
+		} else {
+			console.log(
+				chalk.gray("No user themes found in backup, skipping."),
+			);
+		}
+	} else {
+		console.log(
+			chalk.gray(
+				"Skipping user themes restoration (disabled by option).",
+			),
+		);
+	}
+
+	if (options.systemThemes) {
+		const tempSystemThemesDir = join(tempDir, "system-themes");
+		console.log(
+			chalk.gray("Restoring system themes to /usr/share/themes..."),
+		);
+		if (await exists(tempSystemThemesDir)) {
+			try {
+				await copyDirectoryContents(
+					tempSystemThemesDir,
+					THEME_PATHS.SYSTEM_THEMES_DIR,
+				);
+			} catch (error) {
+				console.warn(
+					chalk.yellow(
+						`Warning: Could not restore system themes (permission issue?): ${
+							error instanceof Error
+								? error.message
+								: "Unknown error"
+						}. You may need to manually copy themes with elevated privileges.`,
+					),
+				);
+			}
+		} else {
+			console.log(
+				chalk.gray("No system themes found in backup, skipping."),
+			);
+		}
+	} else {
+		console.log(
+			chalk.gray("Skipping system themes restoration (not enabled)."),
+		);
+	}
+}
+
+/**
+ * Restores icon directories to user and system locations
+ */
+async function restoreIconDirectories(
+	tempDir: string,
+	options: ComponentOptions,
+): Promise<void> {
+	if (options.userIcons) {
+		const tempUserIconsDir = join(tempDir, "user-icons");
+		console.log(
+			chalk.gray("Restoring user icons to ~/.local/share/icons..."),
+		);
+		if (await exists(tempUserIconsDir)) {
+			// ensure user icons directory exists
+			await Deno.mkdir(ICON_PATHS.USER_ICONS_DIR, { recursive: true });
+			await copyDirectoryContents(
+				tempUserIconsDir,
+				ICON_PATHS.USER_ICONS_DIR,
+				true,
+			);
+		} else {
+			console.log(chalk.gray("No user icons found in backup, skipping."));
+		}
+	} else {
+		console.log(
+			chalk.gray(
+				"Skipping user icons restoration to ~/.local/share/icons (disabled by option).",
+			),
+		);
+	}
+
+	if (options.userIconsAlt) {
+		const tempUserIconsAltDir = join(tempDir, "user-icons-alt");
+		console.log(chalk.gray("Restoring user icons to ~/.icons..."));
+		if (await exists(tempUserIconsAltDir)) {
+			// ensure user icons alt directory exists
+			await Deno.mkdir(ICON_PATHS.USER_ICONS_ALT_DIR, {
+				recursive: true,
+			});
+			await copyDirectoryContents(
+				tempUserIconsAltDir,
+				ICON_PATHS.USER_ICONS_ALT_DIR,
+				true,
+			);
+		} else {
+			console.log(chalk.gray("No ~/.icons found in backup, skipping."));
+		}
+	} else {
+		console.log(
+			chalk.gray(
+				"Skipping user icons restoration to ~/.icons (disabled by option).",
+			),
+		);
+	}
+
+	if (options.systemIcons) {
+		const tempSystemIconsDir = join(tempDir, "system-icons");
+		console.log(
+			chalk.gray("Restoring system icons to /usr/share/icons..."),
+		);
+		if (await exists(tempSystemIconsDir)) {
+			try {
+				await copyDirectoryContents(
+					tempSystemIconsDir,
+					ICON_PATHS.SYSTEM_ICONS_DIR,
+				);
+			} catch (error) {
+				console.warn(
+					chalk.yellow(
+						`Warning: Could not restore system icons (permission issue?): ${
+							error instanceof Error
+								? error.message
+								: "Unknown error"
+						}. You may need to manually copy icons with elevated privileges.`,
+					),
+				);
+			}
+		} else {
+			console.log(
+				chalk.gray("No system icons found in backup, skipping."),
+			);
+		}
+	} else {
+		console.log(
+			chalk.gray("Skipping system icons restoration (not enabled)."),
+		);
+	}
+}
+
+/**
+ * Restores font directories to user and system locations
+ */
+async function restoreFontDirectories(
+	tempDir: string,
+	options: ComponentOptions,
+): Promise<void> {
+	if (options.userFonts) {
+		const tempUserFontsDir = join(tempDir, "user-fonts");
+		console.log(
+			chalk.gray("Restoring user fonts to ~/.local/share/fonts..."),
+		);
+		if (await exists(tempUserFontsDir)) {
+			// ensure user fonts directory exists
+			await Deno.mkdir(FONT_PATHS.USER_FONTS_DIR, { recursive: true });
+			await copyDirectoryContents(
+				tempUserFontsDir,
+				FONT_PATHS.USER_FONTS_DIR,
+				true,
+			);
+		} else {
+			console.log(chalk.gray("No user fonts found in backup, skipping."));
+		}
+	} else {
+		console.log(
+			chalk.gray(
+				"Skipping user fonts restoration to ~/.local/share/fonts (disabled by option).",
+			),
+		);
+	}
+
+	if (options.userFontsAlt) {
+		const tempUserFontsAltDir = join(tempDir, "user-fonts-home");
+		console.log(chalk.gray("Restoring user fonts to ~/.fonts..."));
+		if (await exists(tempUserFontsAltDir)) {
+			// ensure user fonts alt directory exists
+			await Deno.mkdir(FONT_PATHS.USER_FONTS_ALT_DIR, {
+				recursive: true,
+			});
+			await copyDirectoryContents(
+				tempUserFontsAltDir,
+				FONT_PATHS.USER_FONTS_ALT_DIR,
+				true,
+			);
+		} else {
+			console.log(chalk.gray("No ~/.fonts found in backup, skipping."));
+		}
+	} else {
+		console.log(
+			chalk.gray(
+				"Skipping user fonts restoration to ~/.fonts (disabled by option).",
+			),
+		);
+	}
+
+	if (options.systemFonts) {
+		const tempSystemFontsDir = join(tempDir, "system-fonts");
+		console.log(
+			chalk.gray("Restoring system fonts to /usr/share/fonts..."),
+		);
+		if (await exists(tempSystemFontsDir)) {
+			try {
+				await copyDirectoryContents(
+					tempSystemFontsDir,
+					FONT_PATHS.SYSTEM_FONTS_DIR,
+				);
+			} catch (error) {
+				console.warn(
+					chalk.yellow(
+						`Warning: Could not restore system fonts (permission issue?): ${
+							error instanceof Error
+								? error.message
+								: "Unknown error"
+						}`,
+					),
+				);
+			}
+		} else {
+			console.log(
+				chalk.gray("No system fonts found in backup, skipping."),
+			);
+		}
+	} else {
+		console.log(
+			chalk.gray("Skipping system fonts restoration (not enabled)."),
+		);
+	}
+}
+
+// --- transactional restore ---
+
+/**
+ * Error raised when one step of applying settings fails.
+ */
+class RestoreStepError extends Error {
+	constructor(
+		public step: string,
+		message: string,
+	) {
+		super(message);
+		this.name = "RestoreStepError";
+	}
+}
+
+/**
+ * Replaces the Cinnamon file-based settings with the ones in a staged directory.
+ */
+async function restoreCinnamonFiles(stagedDir: string): Promise<void> {
+	const tempShareDir = join(stagedDir, "share");
+	const tempConfigDir = join(stagedDir, "config");
+
+	console.log(
+		chalk.gray(`Removing existing Cinnamon file-based settings...`),
+	);
+	if (await exists(CINNAMON_PATHS.SHARE_DIR_ABSOLUTE)) {
+		await emptyDir(CINNAMON_PATHS.SHARE_DIR_ABSOLUTE);
+	}
+	if (await exists(CINNAMON_PATHS.CONFIG_DIR_ABSOLUTE)) {
+		await emptyDir(CINNAMON_PATHS.CONFIG_DIR_ABSOLUTE);
+	}
+	// ensure dirs exist after emptying, as emptyDir might remove them if they were empty before.
+	await Deno.mkdir(CINNAMON_PATHS.SHARE_DIR_ABSOLUTE, {
+		recursive: true,
+	});
+	await Deno.mkdir(CINNAMON_PATHS.CONFIG_DIR_ABSOLUTE, {
+		recursive: true,
+	});
+
+	console.log(chalk.gray(`Restoring file-based settings...`));
+	if (await exists(tempShareDir)) {
+		await copyDirectoryContents(
+			tempShareDir,
+			CINNAMON_PATHS.SHARE_DIR_ABSOLUTE,
+			true,
+		);
+	} else {
+		console.warn(
+			chalk.yellow(
+				"Warning: No 'share' directory found in the archive.",
+			),
+		);
+	}
+	if (await exists(tempConfigDir)) {
+		await copyDirectoryContents(
+			tempConfigDir,
+			CINNAMON_PATHS.CONFIG_DIR_ABSOLUTE,
+			true,
+		);
+	} else {
+		console.warn(
+			chalk.yellow(
+				"Warning: No 'config' directory found in the archive.",
+			),
+		);
+	}
+}
+
+/**
+ * Replaces the dconf settings of each root with its dump in a staged directory.
+ * Roots are reset and loaded independently; roots without a dump are left alone.
+ */
+async function restoreDconfSettings(
+	stagedDir: string,
+	options: ComponentOptions,
+): Promise<void> {
+	if (!options.dconf) {
+		console.log(
+			chalk.gray(
+				"Skipping dconf settings restoration (disabled by option).",
+			),
+		);
+		return;
+	}
+	const dumps = await listDconfDumps(stagedDir);
+	if (dumps.size === 0) {
+		console.log(
+			chalk.gray(
+				`No dconf settings found in archive. Skipping dconf restore.`,
+			),
+		);
+		return;
+	}
+
+	for (const root of options.dconfRoots ?? [...dumps.keys()]) {
+		const dconfSettingsPath = dumps.get(root);
+		if (!dconfSettingsPath) {
+			console.log(
+				chalk.gray(
+					`No dconf settings for ${root} in archive, skipping.`,
+				),
+			);
+			continue;
+		}
+		let dconfSettingsContent = await Deno.readTextFile(dconfSettingsPath);
+		const filters = options.dconfKeyFilters;
+		const selection = options.selection;
+		if ((filters && hasDconfKeyFilters(filters)) || selection) {
+			// keys that are excluded or not selected keep their live values:
+			// they are loaded back after the reset
+			const applies = (key: string) =>
+				(!filters || isDconfKeyIncluded(key, filters)) &&
+				(!selection || matchesAnyGlob(key, selection.dconf));
+			const liveDump = await executeCommand("dconf", ["dump", root]);
+			if (!liveDump.success) {
+				throw new Error(
+					`dconf dump of ${root} failed: ${liveDump.stderr.trim()}`,
+				);
+			}
+			const incoming = filterDconfDump(
+				dconfSettingsContent,
+				root,
+				applies,
+			);
+			const kept = filterDconfDump(
+				liveDump.stdout,
+				root,
+				(key) => !applies(key),
+			);
+			if (
+				selection && incoming.size === 0 &&
+				parseDconfDump(liveDump.stdout, root).size === kept.size
+			) {
+				continue; // nothing selected below this root
+			}
+			dconfSettingsContent = serializeDconfDump(
+				new Map([...incoming, ...kept]),
+				root,
+			);
+		}
+
+		console.log(
+			chalk.gray(`Clearing existing dconf settings for ${root}...`),
+		);
+		const dconfResetResult = await executeCommand("dconf", [
+			"reset",
+			"-f",
+			root,
+		]);
+		if (!dconfResetResult.success) {
+			throw new Error(
+				`dconf reset of ${root} failed: ${dconfResetResult.stderr.trim()}`,
+			);
+		}
+
+		// an empty dump means the profile had no non-default settings under this root
+		if (dconfSettingsContent.trim() === "") {
+			continue;
+		}
+		console.log(
+			chalk.gray(
+				`Restoring dconf settings for ${root} from ${
+					basename(dconfSettingsPath)
+				}...`,
+			),
+		);
+		const dconfLoadResult = await executeCommand(
+			"dconf",
+			["load", root],
+			{ stdinContent: dconfSettingsContent },
+		);
+		if (!dconfLoadResult.success) {
+			throw new Error(
+				`dconf load of ${root} failed: ${dconfLoadResult.stderr.trim()}`,
+			);
+		}
+	}
+	console.log(chalk.gray("dconf settings restored successfully."));
+}
+
+/**
+ * Named parts of a desktop that can be restored on their own with --only.
+ * `spices` also selects the installed spices of that kind and their settings.
+ */
+const RESTORE_TARGETS: Record<
+	string,
+	{ dconf: string[]; spices?: "applets" | "desklets" | "extensions" }
+> = {
+	keybindings: {
+		dconf: [
+			"/org/cinnamon/desktop/keybindings/**",
+			"/org/cinnamon/desktop/wm/keybindings/**",
+			"/org/cinnamon/muffin/keybindings/**",
+		],
+	},
+	panels: {
+		dconf: [
+			"/org/cinnamon/panels-*",
+			"/org/cinnamon/panel-*",
+			"/org/cinnamon/no-adjacent-panel-barriers",
+		],
+	},
+	applets: {
+		dconf: [
+			"/org/cinnamon/enabled-applets",
+			"/org/cinnamon/next-applet-id",
+		],
+		spices: "applets",
+	},
+	desklets: {
+		dconf: [
+			"/org/cinnamon/enabled-desklets",
+			"/org/cinnamon/next-desklet-id",
+			"/org/cinnamon/desklet-*",
+		],
+		spices: "desklets",
+	},
+	extensions: {
+		dconf: ["/org/cinnamon/enabled-extensions"],
+		spices: "extensions",
+	},
+	sounds: {
+		dconf: ["/org/cinnamon/sounds/**", "/org/cinnamon/desktop/sound/**"],
+	},
+};
+
+/**
+ * Turns a --only-file glob into one matched against archive paths. Paths may be
+ * given relative to the archive (`config/...`, `share/...`) or to the live Cinnamon directories.
+ */
+function normalizeSelectionFileGlob(glob: string): string | null {
+	const prefixes: [string, string][] = [
+		[`${CINNAMON_PATHS.CONFIG_DIR_ABSOLUTE}/`, "config/"],
+		[`${CINNAMON_PATHS.SHARE_DIR_ABSOLUTE}/`, "share/"],
+		[`~/${CINNAMON_PATHS.CONFIG_DIR_RELATIVE}/`, "config/"],
+		[`~/${CINNAMON_PATHS.SHARE_DIR_RELATIVE}/`, "share/"],
+	];
+	for (const [livePrefix, archivePrefix] of prefixes) {
+		if (glob.startsWith(livePrefix)) {
+			return archivePrefix + glob.substring(livePrefix.length);
+		}
+	}
+	return glob.startsWith("config/") || glob.startsWith("share/")
+		? glob
+		: null;
+}
+
+/**
+ * Builds the restore selection from --only, --only-dconf and --only-file, exiting on invalid values.
+ * Returns undefined when nothing was selected, meaning everything is restored.
+ */
+function parseRestoreSelection(
+	options: CommandOptions,
+): RestoreSelection | undefined {
+	const targets = (options.only ?? [])
+		.flatMap((value) => value.split(","))
+		.map((target) => target.trim())
+		.filter((target) => target !== "");
+	for (const target of targets) {
+		if (!(target in RESTORE_TARGETS)) {
+			console.error(
+				chalk.red(
+					`Error: Unknown --only target "${target}". Valid targets: ${
+						Object.keys(RESTORE_TARGETS).join(", ")
+					}.`,
+				),
+			);
+			Deno.exit(1);
+		}
+	}
+	const dconf = (options.onlyDconf ?? []).map((path) => {
+		if (!path.startsWith("/")) {
+			console.error(
+				chalk.red(
+					`Error: --only-dconf expects an absolute dconf path, got "${path}".`,
+				),
+			);
+			Deno.exit(1);
+		}
+		return path.endsWith("/") ? `${path}**` : path;
+	});
+	const files = (options.onlyFile ?? []).map((glob) => {
+		const normalized = normalizeSelectionFileGlob(glob);
+		if (!normalized) {
+			console.error(
+				chalk.red(
+					`Error: --only-file expects a path below config/ or share/ (or ~/.config/cinnamon/, ~/.local/share/cinnamon/), got "${glob}".`,
+				),
+			);
+			Deno.exit(1);
+		}
+		return normalized;
+	});
+	if (targets.length === 0 && dconf.length === 0 && files.length === 0) {
+		return undefined;
+	}
+	return { targets: [...new Set(targets)], dconf, files };
+}
+
+/**
+ * Resolves the named targets of a selection into dconf and file patterns for a staged archive.
+ */
+async function resolveRestoreSelection(
+	stagedDir: string,
+	selection: RestoreSelection,
+): Promise<RestoreSelection> {
+	const dconf = [...selection.dconf];
+	const files = [...selection.files];
+	const cinnamonDump = (await listDconfDumps(stagedDir)).get(DCONF_ROOT);
+	const cinnamonKeys = cinnamonDump
+		? parseDconfDump(await Deno.readTextFile(cinnamonDump), DCONF_ROOT)
+		: new Map<string, string>();
+
+	for (const target of selection.targets) {
+		const definition = RESTORE_TARGETS[target];
+		dconf.push(...definition.dconf);
+		const kind = definition.spices;
+		if (!kind) continue;
+
+		files.push(`share/${kind}/**`);
+		const uuids = new Set([
+			...((await listDirectoryNames(join(stagedDir, "share", kind))) ??
+				[]),
+			...parseEnabledSpices(cinnamonKeys, kind).keys(),
+		]);
+		for (const uuid of uuids) {
+			files.push(`config/spices/${uuid}/**`);
+		}
+	}
+	return { targets: [], dconf, files };
+}
+
+/**
+ * Copies the files of a staged archive that match the selection over the live ones.
+ */
+async function restoreSelectedFiles(
+	stagedDir: string,
+	selection: RestoreSelection,
+): Promise<void> {
+	if (selection.files.length === 0) {
+		return;
+	}
+	let restored = 0;
+	for (
+		const [archiveDir, liveDir] of [
+			["share", CINNAMON_PATHS.SHARE_DIR_ABSOLUTE],
+			["config", CINNAMON_PATHS.CONFIG_DIR_ABSOLUTE],
+		]
+	) {
+		for (
+			const relativePath of await listFilesRecursive(
+				join(stagedDir, archiveDir),
+			)
+		) {
+			if (
+				!matchesAnyGlob(
+					`${archiveDir}/${relativePath}`,
+					selection.files,
+				)
+			) {
+				continue;
+			}
+			const destination = join(liveDir, relativePath);
+			await Deno.mkdir(dirname(destination), { recursive: true });
+			await Deno.copyFile(
+				join(stagedDir, archiveDir, relativePath),
+				destination,
+			);
+			restored++;
+		}
+	}
+	console.log(
+		chalk.gray(
+			restored > 0
+				? `Restored ${restored} selected file(s).`
+				: "No files in the archive match the selection.",
+		),
+	);
+}
+
+/**
+ * The steps that apply a staged archive to the live desktop, in order.
+ */
+function restoreSteps(
+	stagedDir: string,
+	options: ComponentOptions,
+): RestoreStep[] {
+	if (options.selection) {
+		return [
+			{
+				name: "selected files",
+				run: () => restoreSelectedFiles(stagedDir, options.selection!),
+				mergesInto: [
+					{
+						stagedDir: join(stagedDir, "share"),
+						liveDir: CINNAMON_PATHS.SHARE_DIR_ABSOLUTE,
+					},
+					{
+						stagedDir: join(stagedDir, "config"),
+						liveDir: CINNAMON_PATHS.CONFIG_DIR_ABSOLUTE,
+					},
+				],
+			},
+			{
+				name: "dconf",
+				run: () => restoreDconfSettings(stagedDir, options),
+			},
+		];
+	}
+	// themes, icons and fonts are merged into the live directories rather than replacing them
+	const assetDirs = (archiveDirs: string[]) =>
+		ASSET_COMPONENT_DIRS
+			.filter((c) =>
+				archiveDirs.includes(c.archiveDir) && options[c.option]
+			)
+			.map((c) => ({
+				stagedDir: join(stagedDir, c.archiveDir),
+				liveDir: c.livePath,
+			}));
+	return [
+		{ name: "cinnamon files", run: () => restoreCinnamonFiles(stagedDir) },
+		{
+			name: "themes",
+			run: () => restoreThemeDirectories(stagedDir, options),
+			mergesInto: assetDirs(EXPORT_EXCLUDE_GROUPS.themes),
+		},
+		{
+			name: "icons",
+			run: () => restoreIconDirectories(stagedDir, options),
+			mergesInto: assetDirs(EXPORT_EXCLUDE_GROUPS.icons),
+		},
+		{
+			name: "fonts",
+			run: () => restoreFontDirectories(stagedDir, options),
+			mergesInto: assetDirs(EXPORT_EXCLUDE_GROUPS.fonts),
+		},
+		{ name: "dconf", run: () => restoreDconfSettings(stagedDir, options) },
+	];
+}
+
+/**
+ * Lists the paths copying `sourceDir` into `destinationDir` would create: entries
+ * missing in the destination, without descending into them.
+ */
+async function listNewPaths(
+	sourceDir: string,
+	destinationDir: string,
+): Promise<string[]> {
+	if (!(await exists(sourceDir))) {
+		return [];
+	}
+	try {
+		if (!(await Deno.lstat(destinationDir)).isDirectory) {
+			return [];
+		}
+	} catch (_e) {
+		return [destinationDir];
+	}
+	const created: string[] = [];
+	for await (const entry of Deno.readDir(sourceDir)) {
+		const destination = join(destinationDir, entry.name);
+		if (entry.isDirectory) {
+			created.push(
+				...(await listNewPaths(
+					join(sourceDir, entry.name),
+					destination,
+				)),
+			);
+			continue;
+		}
+		try {
+			await Deno.lstat(destination);
+		} catch (_e) {
+			created.push(destination);
+		}
+	}
+	return created;
+}
+
+/**
+ * Checks that no interrupted switch or restore is waiting to be rolled back,
+ * so a new one does not overwrite its journal. Reports it if there is one.
+ */
+async function checkNoPendingRestore(): Promise<boolean> {
+	if (!(await exists(APP_PATHS.JOURNAL_FILE))) {
+		return true;
+	}
+	console.error(
+		chalk.red(
+			"Error: An earlier switch or restore was interrupted and has not been resolved yet. Nothing was changed.",
+		),
+	);
+	console.error(
+		chalk.gray(
+			`Run ${PROGRAM_NAME} interactively or with --yes to roll it back or keep the current settings first.`,
+		),
+	);
+	return false;
+}
+
+async function writeJournal(journal: RestoreJournal): Promise<void> {
+	await writeFileAtomic(
+		APP_PATHS.JOURNAL_FILE,
+		JSON.stringify(journal, null, 2),
+	);
+}
+
+/**
+ * Runs restore steps one by one, recording progress in the journal so an
+ * interrupted run can be recovered. Throws a RestoreStepError naming the step that failed.
+ */
+async function applyRestoreSteps(
+	steps: RestoreStep[],
+	journal: RestoreJournal,
+): Promise<void> {
+	for (const step of steps) {
+		journal.currentStep = step.name;
+		// recorded before the step runs, so an interrupted step can be undone too
+		for (const { stagedDir, liveDir } of step.mergesInto ?? []) {
+			journal.createdPaths = [
+				...(journal.createdPaths ?? []),
+				...(await listNewPaths(stagedDir, liveDir)),
+			];
+		}
+		await writeJournal(journal);
+		try {
+			await step.run();
+		} catch (e) {
+			throw new RestoreStepError(
+				step.name,
+				e instanceof Error ? e.message : String(e),
+			);
+		}
+		journal.completedSteps.push(step.name);
+	}
+	journal.currentStep = null;
+}
+
+/**
+ * Re-applies the settings saved before a journaled operation started.
+ * Keeps going when a step fails so as much as possible is restored.
+ */
+async function rollbackRestore(journal: RestoreJournal): Promise<boolean> {
+	const rollbackFile = journal.rollbackFile;
+	if (!rollbackFile || !(await exists(rollbackFile))) {
+		console.error(
+			chalk.red(
+				"Error: The settings from before the change were not saved, so they cannot be restored.",
+			),
+		);
+		return false;
+	}
+	console.log(
+		chalk.yellow(
+			`Rolling back to the settings saved in ${
+				basename(rollbackFile)
+			}...`,
+		),
+	);
+	return await withTempDir(
+		{ prefix: "cinnamon-rollback-" },
+		async (tempDir) => {
+			if (!(await unzipArchive(rollbackFile, tempDir))) {
+				return false;
+			}
+			let success = true;
+			// copying the snapshot back does not remove what the restore added
+			for (const path of journal.createdPaths ?? []) {
+				try {
+					await Deno.remove(path, { recursive: true });
+				} catch (e) {
+					if (!(e instanceof Deno.errors.NotFound)) {
+						success = false;
+						console.error(
+							chalk.red(
+								`Error: Could not remove ${path}: ${
+									e instanceof Error ? e.message : String(e)
+								}`,
+							),
+						);
+					}
+				}
+			}
+			for (const step of restoreSteps(tempDir, journal.components)) {
+				try {
+					await step.run();
+				} catch (e) {
+					success = false;
+					console.error(
+						chalk.red(
+							`Error: Rolling back ${step.name} failed: ${
+								e instanceof Error ? e.message : String(e)
+							}`,
+						),
+					);
+				}
+			}
+			return success;
+		},
+	);
+}
+
+/**
+ * Removes the journal of a finished operation, and the rollback snapshot if it was
+ * made only for that operation (unless it is still needed).
+ */
+async function finishJournal(
+	journal: RestoreJournal,
+	keepRollbackFile: boolean = false,
+): Promise<void> {
+	await Deno.remove(APP_PATHS.JOURNAL_FILE).catch(() => {});
+	if (journal.ownsRollbackFile && journal.rollbackFile && !keepRollbackFile) {
+		await Deno.remove(journal.rollbackFile).catch(() => {});
+		await collectGarbage();
+	}
+}
+
+/**
+ * Detects a journal left behind by an interrupted switch or restore and offers
+ * to roll back to the settings from before it started.
+ */
+async function recoverInterruptedRestore(): Promise<void> {
+	if (!(await exists(APP_PATHS.JOURNAL_FILE))) {
+		return;
+	}
+	let journal: RestoreJournal;
+	try {
+		journal = JSON.parse(await Deno.readTextFile(APP_PATHS.JOURNAL_FILE));
+	} catch (_e) {
+		console.warn(
+			chalk.yellow(
+				"Warning: Found an unreadable restore journal from an interrupted run. Removing it.",
+			),
+		);
+		await Deno.remove(APP_PATHS.JOURNAL_FILE).catch(() => {});
+		return;
+	}
+
+	console.warn(
+		chalk.yellow(
+			`Warning: "${journal.operation}" (started ${
+				new Date(journal.startedAt).toLocaleString()
+			}) was interrupted while restoring ${
+				journal.currentStep ?? "settings"
+			}. Your settings may be in an inconsistent state.`,
+		),
+	);
+	if (!RUNTIME_FLAGS.assumeYes && !canPrompt()) {
+		console.warn(
+			chalk.gray(
+				"Run the manager interactively or with --yes to roll back to the settings from before it started.",
+			),
+		);
+		return;
+	}
+	const rollBack = confirmAction(
+		chalk.yellow("Roll back to the settings from before it started?"),
+	);
+	if (!rollBack) {
+		console.log(chalk.gray("Leaving the current settings as they are."));
+		let keptFile = journal.rollbackFile;
+		if (keptFile && journal.ownsRollbackFile && (await exists(keptFile))) {
+			// keep it with the automatic backups, where it can be restored and is pruned in time
+			const backupFile = join(
+				APP_PATHS.AUTO_BACKUP_DIR,
+				basename(keptFile),
+			);
+			await Deno.mkdir(APP_PATHS.AUTO_BACKUP_DIR, { recursive: true });
+			await Deno.rename(keptFile, backupFile);
+			keptFile = backupFile;
+		}
+		if (keptFile && (await exists(keptFile))) {
+			console.log(
+				chalk.gray(
+					`The previous settings are kept in ${keptFile}. Use ${PROGRAM_NAME} restore to apply them later.`,
+				),
+			);
+		}
+		await finishJournal(journal, true);
+		return;
+	}
+	const success = await rollbackRestore(journal);
+	await finishJournal(journal, !success);
+	if (success) {
+		console.log(chalk.green("Previous settings restored."));
+	} else {
+		console.error(
+			chalk.red("Rollback did not complete. Check the errors above."),
+		);
+	}
+}
+
+/**
+ * Restores Cinnamon settings from a given profile or backup zip file.
+ * The archive is staged first and then applied step by step; if a step fails,
+ * the settings from before the change (`rollbackFile`, or a snapshot taken here)
+ * are re-applied.
+ */
+async function restoreSettingsFromZip(
+	zipFilePath: string,
+	isProfileSwitch: boolean = false,
+	options?: ComponentOptions,
+	skipBackup: boolean = false,
+	rollbackFile: string | null = null,
+): Promise<boolean> {
+	let componentOptions: ComponentOptions = options || {
+		userThemes: true,
+		systemThemes: true,
+		userIcons: true,
+		userIconsAlt: true,
+		systemIcons: true,
+		userFonts: true,
+		userFontsAlt: true,
+		systemFonts: true,
+		dconf: true,
+	};
+
+	if (!(await exists(zipFilePath))) {
+		console.error(
+			chalk.red(`Error: Archive file not found: ${zipFilePath}`),
+		);
+		return false;
+	}
+	if (!(await checkNoPendingRestore())) {
+		return false;
+	}
+
+	return await withTempDir(
+		{ prefix: "cinnamon-restore-" },
+		async (tempDir) => {
+			console.log(
+				chalk.gray(
+					`Extracting archive ${
+						basename(
+							zipFilePath,
+						)
+					} to temporary directory...`,
+				),
+			);
+			if (
+				!(await unzipArchive(zipFilePath, tempDir)) ||
+				!(await checkStagedArchive(tempDir, zipFilePath))
+			) {
+				return false;
+			}
+			await expandHomePaths(tempDir);
+
+			// only the dconf roots stored in the archive are touched
+			if (componentOptions.dconf) {
+				const archivedRoots = [
+					...(await listDconfDumps(tempDir)).keys(),
+				];
+				for (const root of componentOptions.dconfRoots ?? []) {
+					if (!archivedRoots.includes(root)) {
+						console.warn(
+							chalk.yellow(
+								`Warning: The archive has no dconf settings for ${root}.`,
+							),
+						);
+					}
+				}
+				componentOptions = {
+					...componentOptions,
+					dconfRoots: componentOptions.dconfRoots?.filter((root) =>
+						archivedRoots.includes(root)
+					) ?? archivedRoots,
+				};
+			}
+
+			if (componentOptions.selection) {
+				componentOptions = {
+					...componentOptions,
+					selection: await resolveRestoreSelection(
+						tempDir,
+						componentOptions.selection,
+					),
+				};
+				console.log(
+					chalk.gray(
+						"Restoring only the selected settings; everything else is left untouched.",
+					),
+				);
+			}
+
+			if (!isProfileSwitch && !skipBackup) {
+				console.log(
+					chalk.gray(
+						`Creating automatic pre-restore backup of current settings...`,
+					),
+				);
+				const autoBackupFile = await createTimestampedBackup(
+					APP_PATHS.AUTO_BACKUP_DIR,
+					"pre-restore",
+					componentOptions,
+				);
+				if (autoBackupFile) {
+					rollbackFile = autoBackupFile;
+					console.log(
+						chalk.gray(
+							`Automatic backup created at ${autoBackupFile}`,
+						),
+					);
+				} else {
+					console.warn(
+						chalk.yellow(
+							"Warning: Automatic pre-restore backup creation may have failed. Continuing with restore...",
+						),
+					);
+				}
+			} else if (!isProfileSwitch && skipBackup) {
+				console.log(
+					chalk.gray(
+						"Skipping automatic pre-restore backup (disabled by --no-backup option).",
+					),
+				);
+			}
+
+			let ownsRollbackFile = false;
+			if (!rollbackFile) {
+				console.log(
+					chalk.gray(
+						"Saving current settings so the change can be rolled back...",
+					),
+				);
+				rollbackFile = await createTimestampedBackup(
+					APP_PATHS.CUSTOM_PROFILES_ROOT_DIR,
+					"rollback",
+					componentOptions,
+				);
+				ownsRollbackFile = rollbackFile !== null;
+				if (
+					!rollbackFile &&
+					!confirmAction(
+						chalk.redBright(
+							"Could not save the current settings, so a failure cannot be rolled back. Continue anyway? (Not Recommended)",
+						),
+						false,
+					)
+				) {
+					return false;
+				}
+			}
+
+			const journal: RestoreJournal = {
+				operation: Deno.args.join(" "),
+				pid: Deno.pid,
+				startedAt: new Date().toISOString(),
+				source: zipFilePath,
+				rollbackFile,
+				ownsRollbackFile,
+				components: componentOptions,
+				completedSteps: [],
+				currentStep: null,
+			};
+			try {
+				await applyRestoreSteps(
+					restoreSteps(tempDir, componentOptions),
+					journal,
+				);
+			} catch (e) {
+				const step = e instanceof RestoreStepError
+					? e.step
+					: journal.currentStep;
+				console.error(
+					chalk.red(
+						`Error: Restoring ${step ?? "settings"} failed: ${
+							e instanceof Error ? e.message : String(e)
+						}`,
+					),
+				);
+				const rolledBack = await rollbackRestore(journal);
+				await finishJournal(journal, !rolledBack);
+				if (rolledBack) {
+					console.log(
+						chalk.yellow(
+							"All changes were rolled back to the previous settings.",
+						),
+					);
+				} else {
+					console.error(
+						chalk.red(
+							"Settings might be in an inconsistent state.",
+						),
+					);
+					if (rollbackFile) {
+						console.error(
+							chalk.yellow(
+								`The previous settings are saved in ${rollbackFile}.`,
+							),
+						);
+					}
+				}
+				return false;
+			}
+			await finishJournal(journal);
+			return true;
+		},
+	);
+}
+
+/**
+ * Restore settings from a user-selected backup.
+ */
+async function restoreBackupCmd(
+	backupFile: string | undefined,
+	options: CommandOptions,
+): Promise<void> {
+	const componentOptions: ComponentOptions = {
+		userThemes: options.userThemes !== false,
+		systemThemes: options.addSystemThemes === true,
+		userIcons: options.userIconsLocal !== false,
+		userIconsAlt: options.userIconsHome !== false,
+		systemIcons: options.addSystemIcons === true,
+		userFonts: options.userFontsLocal !== false,
+		userFontsAlt: options.userFontsHome !== false,
+		systemFonts: options.addSystemFonts === true,
+		dconf: options.dconf !== false,
+		dconfRoots: parseDconfPathOption(options.dconfPath),
+		dconfKeyFilters: await resolveDconfKeyFilters(),
+		selection: parseRestoreSelection(options),
+	};
+
+	let backupFilePath: string | null;
+	if (backupFile !== undefined) {
+		backupFilePath = await resolveBackupFile(backupFile);
+		if (!backupFilePath) {
+			console.error(
+				chalk.red(`Error: Backup file not found: ${backupFile}`),
+			);
+			Deno.exit(1);
+		}
+	} else {
+		backupFilePath = await selectBackupFile();
+		if (!backupFilePath) {
+			Deno.exit(0);
+		}
+	}
+	console.log(
+		chalk.yellow(
+			`Restoring settings from backup: ${basename(backupFilePath)}`,
+		),
+	);
+
+	const success = await restoreSettingsFromZip(
+		backupFilePath,
+		false,
+		componentOptions,
+		options.backup === false,
+	);
+
+	if (success) {
+		setJsonResult({ backupFile: backupFilePath });
+		console.log(chalk.green("Settings restored successfully from backup."));
+		console.log(
+			chalk.gray(
+				"You may need to restart Cinnamon or log out/in for all changes to take effect.",
+			),
+		);
+	} else {
+		console.error(chalk.red("Failed to restore settings from backup."));
+		Deno.exit(1);
+	}
+}
+
+/**
+ * Select a backup file to restore. Returns full path or null.
+ */
+async function selectBackupFile(): Promise<string | null> {
+	if (
+		!(await exists(APP_PATHS.BACKUP_DIR)) &&
+		!(await exists(APP_PATHS.AUTO_BACKUP_DIR)) &&
+		!(await exists(APP_PATHS.SCHEDULED_BACKUP_DIR))
+	) {
+		console.log(
+			chalk.yellow("No backup directories found. Nothing to restore."),
+		);
+		return null;
+	}
+
+	const filesWithDates = await readBackupFiles();
+
+	if (filesWithDates.length === 0) {
+		console.log(
+			chalk.yellow("No backup files found in the backup directories."),
+		);
+		return null;
+	}
+
+	console.log(
+		chalk.yellow(
+			"Available backup files (manual, automatic and scheduled):",
+		),
+	);
+	const table = new Table()
+		.header(["#", "Backup File", "Date", "Type"])
+		.padding(2)
+		.border(true);
+	filesWithDates.forEach(({ filename, date, type }, index) => {
+		table.push([
+			`${index + 1}`,
+			filename,
+			date ? date.toLocaleString() : "Unknown",
+			type,
+		]);
+	});
+	console.log(table.toString());
+
+	if (!canPrompt()) {
+		failInputRequired(
+			"Choosing a backup",
+			`Pass the backup file instead: ${PROGRAM_NAME} restore <backup-file>`,
+		);
+	}
+	const input = prompt(
+		chalk.yellow(
+			"Enter the number of the backup to restore (or 0 to cancel):",
+		),
+	);
+	if (input === null) {
+		console.log(chalk.gray("Restore cancelled by user."));
+		return null;
+	}
+	const selection = parseInt(input);
+
+	if (
+		isNaN(selection) ||
+		selection < 0 ||
+		selection > filesWithDates.length
+	) {
+		console.error(
+			chalk.red(
+				`Error: Invalid selection. Please enter a number between 0 and ${filesWithDates.length}.`,
+			),
+		);
+		return null;
+	}
+	if (selection === 0) {
+		console.log(chalk.gray("Restore cancelled."));
+		return null;
+	}
+	return filesWithDates[selection - 1].fullPath;
+}
+
+/**
+ * Switch to a different profile
+ */
+async function switchProfile(
+	name: string,
+	options: CommandOptions,
+): Promise<void> {
+	const profiles = await readProfiles();
+	const profileToActivate = profiles.find((p) => p.name === name);
+
+	if (!profileToActivate) {
+		console.error(chalk.red(`Error: Profile "${name}" not found.`));
+		Deno.exit(1);
+	}
+
+	console.log(chalk.gray(`Verifying profile archive...`));
+	const verification = await verifyArchive(profileToActivate.zipFile);
+	if (verification.problems.length > 0) {
+		console.error(
+			chalk.red(
+				`Error: The archive of profile "${name}" is damaged. Nothing was changed.`,
+			),
+		);
+		printVerifyProblems(verification.problems);
+		Deno.exit(1);
+	}
+
+	const spiceManifest = await readSpiceManifest(profileToActivate.zipFile);
+	const missingSpices = spiceManifest
+		? await findMissingSpices(spiceManifest)
+		: [];
+	if (missingSpices.length > 0) {
+		console.warn(
+			chalk.yellow(
+				`Warning: Profile "${name}" enables ${missingSpices.length} spice(s) that are neither in the profile nor installed on this system:`,
+			),
+		);
+		for (const spice of missingSpices) {
+			console.warn(chalk.yellow(`  - ${spice.uuid} (${spice.type})`));
+		}
+		console.warn(
+			chalk.gray(
+				"They will not load after the switch until they are installed.",
+			),
+		);
+	}
+
+	if (!(await checkNoPendingRestore())) {
+		Deno.exit(1);
+	}
+
+	// ask for confirmation before switching, as it will override current settings
+	const confirmMessage = profileToActivate.active
+		? chalk.yellow(
+			`Profile "${name}" is already active. Re-applying it will reset any unsaved changes. Continue?`,
+		)
+		: chalk.yellow(
+			`Switching to profile "${name}" will override your current settings. Continue?`,
+		);
+
+	const proceed = options.confirmed || confirmAction(confirmMessage);
+	if (!proceed) {
+		console.log(chalk.gray("Profile switch cancelled by user."));
+		Deno.exit(0);
+	}
+	console.log(chalk.yellow(`Switching to profile: ${name}`));
+
+	const componentOptions: ComponentOptions = {
+		userThemes: options.userThemes !== false,
+		systemThemes: options.addSystemThemes === true,
+		userIcons: options.userIconsLocal !== false,
+		userIconsAlt: options.userIconsHome !== false,
+		systemIcons: options.addSystemIcons === true,
+		userFonts: options.userFontsLocal !== false,
+		userFontsAlt: options.userFontsHome !== false,
+		systemFonts: options.addSystemFonts === true,
+		dconf: options.dconf !== false,
+		dconfRoots: parseDconfPathOption(options.dconfPath) ??
+			profileToActivate.components?.dconfRoots,
+		dconfKeyFilters: await resolveDconfKeyFilters(
+			profileToActivate.dconfKeyFilters,
+		),
+		selection: parseRestoreSelection(options),
+	};
+
+	let autoBackupFile: string | null = null;
+	if (options.backup !== false) {
+		console.log(
+			chalk.gray(
+				`Creating backup of current settings before switching...`,
+			),
+		);
+		autoBackupFile = await createTimestampedBackup(
+			APP_PATHS.AUTO_BACKUP_DIR,
+			`pre-switch-to-${name.replace(/[^a-zA-Z0-9-_]/g, "_")}`,
+			componentOptions,
+		);
+		if (autoBackupFile) {
+			console.log(
+				chalk.gray(
+					`Automatic backup created at ${basename(autoBackupFile)}`,
+				),
+			);
+		} else {
+			const proceed = confirmAction(
+				chalk.redBright(
+					"Automatic backup failed. Continue switching profile anyway? (Not Recommended)",
+				),
+				false,
+			);
+			if (!proceed) {
+				console.log(chalk.red("Profile switch aborted by user."));
+				Deno.exit(0);
+			}
+			console.warn(
+				chalk.yellow(
+					"Proceeding with switch despite backup failure...",
+				),
+			);
+		}
+	} else {
+		console.log(
+			chalk.gray(
+				"Skipping automatic backup (disabled by --no-backup option).",
+			),
+		);
+	}
+
+	const success = await restoreSettingsFromZip(
+		profileToActivate.zipFile,
+		true,
+		componentOptions,
+		true, // skip backup since we handle it manually above
+		autoBackupFile, // and roll back to it if the switch fails
+	);
+
+	if (success && componentOptions.selection) {
+		// the desktop now mixes both profiles, so neither status nor update should treat it as this one
+		const active = profiles.find((p) => p.active);
+		setJsonResult({
+			profile: name,
+			backupFile: autoBackupFile,
+			partial: true,
+			activeProfile: active?.name ?? null,
+		});
+		console.log(
+			chalk.green(
+				`Applied the selected parts of profile "${name}". The active profile was not changed (${
+					active ? `still "${active.name}"` : "none is active"
+				}).`,
+			),
+		);
+		console.log(
+			chalk.gray(
+				"You may need to restart Cinnamon or log out/in for all changes to take effect.",
+			),
+		);
+	} else if (success) {
+		profiles.forEach((p) => (p.active = p.name === name));
+		profileToActivate.lastActivatedAt = new Date().toISOString();
+		await writeProfiles(profiles);
+		setJsonResult({
+			profile: name,
+			backupFile: autoBackupFile,
+			partial: false,
+		});
+		console.log(chalk.green(`Profile "${name}" switched successfully.`));
+		console.log(
+			chalk.gray(
+				"You may need to restart Cinnamon or log out/in for all changes to take effect.",
+			),
+		);
+	} else {
+		console.error(chalk.red(`Failed to switch to profile "${name}".`));
+		Deno.exit(1);
+	}
+}
+
+/**
+ * Show or edit the metadata of a profile
+ */
+async function profileMetaCmd(
+	name: string,
+	options: MetaOptions,
+): Promise<void> {
+	const profiles = await readProfiles();
+	const profile = profiles.find((p) => p.name === name);
+	if (!profile) {
+		console.error(chalk.red(`Error: Profile "${name}" not found.`));
+		Deno.exit(1);
+	}
+
+	const editing = options.description !== undefined ||
+		options.tag !== undefined ||
+		options.removeTag !== undefined ||
+		options.clearTags === true ||
+		options.includeKey !== undefined ||
+		options.excludeKey !== undefined ||
+		options.resetKeyFilters === true;
+	if (editing) {
+		if (options.description !== undefined) {
+			profile.description = options.description.trim();
+		}
+		const removed = new Set(normalizeTags(options.removeTag ?? []));
+		const tags = options.clearTags
+			? []
+			: profile.tags.filter((t) => !removed.has(t));
+		profile.tags = normalizeTags([...tags, ...(options.tag ?? [])]);
+		profile.dconfKeyFilters = await addDconfKeyFilterOverrides(
+			options.resetKeyFilters ? null : profile.dconfKeyFilters,
+			options.includeKey,
+			options.excludeKey,
+		);
+		await writeProfiles(profiles);
+		console.log(chalk.green(`Metadata for "${name}" updated.`));
+	}
+
+	setJsonResult({ profile });
+	const keyFilters = await resolveDconfKeyFilters(profile.dconfKeyFilters);
+	const components = profile.components
+		? Object.entries(profile.components)
+			.filter(([, enabled]) => enabled === true)
+			.map(([component]) => component)
+			.join(", ")
+		: chalk.gray("unknown");
+	const table = new Table()
+		.body([
+			["Name", profile.name],
+			["Status", profile.active ? chalk.green("Active") : "Inactive"],
+			["Description", profile.description || chalk.gray("none")],
+			["Tags", profile.tags.join(", ") || chalk.gray("none")],
+			["Created", new Date(profile.createdAt).toLocaleString()],
+			["Updated", new Date(profile.updatedAt).toLocaleString()],
+			[
+				"Last Activated",
+				profile.lastActivatedAt
+					? new Date(profile.lastActivatedAt).toLocaleString()
+					: chalk.gray("never"),
+			],
+			["Components", components],
+			[
+				"dconf Paths",
+				profile.components?.dconfRoots?.join(", ") ??
+					chalk.gray("unknown"),
+			],
+			["Cinnamon", profile.cinnamonVersion ?? chalk.gray("unknown")],
+			[
+				"Included Keys",
+				keyFilters.include.join(", ") || chalk.gray("all"),
+			],
+			[
+				"Excluded Keys",
+				keyFilters.exclude.join(", ") || chalk.gray("none"),
+			],
+		])
+		.padding(2)
+		.border(true);
+	console.log(table.toString());
+}
+
+/**
+ * Show what a profile or backup contains: components, themes, appearance and spices
+ */
+async function showProfileCmd(spec: string): Promise<void> {
+	const archive = await resolveArchiveSpec(spec);
+	if (!archive) {
+		console.error(
+			chalk.red(`Error: Profile or backup "${spec}" not found.`),
+		);
+		Deno.exit(1);
+	}
+
+	let entries: ArchiveEntry[];
+	try {
+		entries = await listArchiveEntries(archive.zipFile);
+	} catch (e) {
+		console.error(
+			chalk.red(`Error: Failed to read ${basename(archive.zipFile)}.`),
+		);
+		console.error(chalk.gray(describeArchiveError(e)));
+		Deno.exit(1);
+	}
+
+	// per-component file counts and sizes, and the themes/fonts below each component
+	const components = new Map<string, { files: number; size: number }>();
+	const assets = new Map<string, Set<string>>();
+	for (const entry of entries) {
+		const path = entry.path.replace(/^\.?\//, "").replace(/\/$/, "");
+		const [topLevel, item] = path.split("/");
+		if (
+			item && ASSET_COMPONENT_DIRS.some((c) => c.archiveDir === topLevel)
+		) {
+			assets.set(topLevel, (assets.get(topLevel) ?? new Set()).add(item));
+		}
+		if (entry.type === "dir") continue;
+		const component = item
+			? topLevel
+			: dconfRootFromFileName(topLevel)
+			? "dconf"
+			: "metadata";
+		const summary = components.get(component) ?? { files: 0, size: 0 };
+		summary.files++;
+		summary.size += entry.size;
+		components.set(component, summary);
+	}
+
+	const dconfKeys = new Map<string, string>();
+	for (const entry of entries) {
+		const root = dconfRootFromFileName(entry.path.replace(/^\.\//, ""));
+		const content = root
+			? await readArchiveEntry(archive.zipFile, entry.path)
+			: null;
+		if (root && content) {
+			for (
+				const [key, value] of parseDconfDump(
+					new TextDecoder().decode(content),
+					root,
+				)
+			) {
+				dconfKeys.set(key, value);
+			}
+		}
+	}
+	const appearance = APPEARANCE_KEYS
+		.map(({ label, keys }) => {
+			const key = keys.find((k) => dconfKeys.has(k));
+			return {
+				label,
+				value: key ? dconfKeys.get(key)!.replace(/^'|'$/g, "") : null,
+			};
+		});
+	const enabledApplets = [
+		...parseEnabledSpices(dconfKeys, "applets").entries(),
+	].map(([uuid, instances]) => ({ uuid, instances: instances.length }));
 
-	if (!(await exists(targetDir))) {
-		await Deno.mkdir(targetDir, { recursive: true });
+	let exportMetadata: Record<string, unknown> | null = null;
+	try {
+		const content = await readArchiveEntry(
+			archive.zipFile,
+			EXPORT_METADATA_FILE,
+		);
+		exportMetadata = content
+			? JSON.parse(new TextDecoder().decode(content))
+			: null;
+	} catch (_e) {
+		/* shown as absent */
 	}
-	const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
-	const backupFile = join(targetDir, `${prefix}-${timestamp}.zip`);
 
-	const success = await withTempDir(
-		{ prefix: "cinnamon-backup-" },
-		async (tempDir) => {
-			const tempShareDir = join(tempDir, "share");
-			const tempConfigDir = join(tempDir, "config");
+	const manifest = await readSpiceManifest(archive.zipFile);
+	const missing = new Set(
+		manifest ? await findMissingSpices(manifest) : [],
+	);
+	const archiveSize = await getArchiveSize(archive.zipFile);
+	const unpackedSize = [...components.values()].reduce(
+		(total, summary) => total + summary.size,
+		0,
+	);
+	setJsonResult({
+		archive: archive.label,
+		zipFile: archive.zipFile,
+		size: archiveSize,
+		unpackedSize,
+		components: Object.fromEntries(components),
+		assets: Object.fromEntries(
+			[...assets].map((
+				[component, items],
+			) => [component, [...items].sort()]),
+		),
+		appearance: Object.fromEntries(
+			appearance.map(({ label, value }) => [label, value]),
+		),
+		enabledApplets,
+		exportMetadata,
+		spices: manifest?.spices ?? null,
+		missingSpices: [...missing].map((spice) => spice.uuid),
+	});
+
+	console.log(chalk.cyan(`Contents of ${archive.label}`));
+	console.log(
+		chalk.gray(
+			`Archive: ${archive.zipFile} (${
+				archiveSize !== null ? formatSize(archiveSize) : "unknown size"
+			}, ${formatSize(unpackedSize)} unpacked)`,
+		),
+	);
+	console.log(
+		new Table()
+			.header(["Component", "Files", "Size"])
+			.body(
+				[...components]
+					.sort(([a], [b]) => a.localeCompare(b))
+					.map(([component, summary]) => [
+						component,
+						String(summary.files),
+						formatSize(summary.size),
+					]),
+			)
+			.padding(2)
+			.border(true)
+			.toString(),
+	);
 
+	if (assets.size > 0) {
+		console.log(chalk.yellow("Themes, icons and fonts:"));
+		for (const [component, items] of assets) {
+			const names = [...items].sort();
 			console.log(
-				chalk.gray(
-					"Copying current Cinnamon file-based settings for backup...",
-				),
-			);
-			await copyDirectoryContents(
-				CINNAMON_PATHS.SHARE_DIR_ABSOLUTE,
-				tempShareDir,
-			);
-			await copyDirectoryContents(
-				CINNAMON_PATHS.CONFIG_DIR_ABSOLUTE,
-				tempConfigDir,
+				`  ${component}: ${names.slice(0, 20).join(", ")}${
+					names.length > 20
+						? chalk.gray(` and ${names.length - 20} more`)
+						: ""
+				}`,
 			);
+		}
+	}
 
-			// copy themes, icons, and fonts for backup
-			await copyThemeIconAndFontDirectories(tempDir, componentOptions);
+	console.log(
+		new Table()
+			.header(["Appearance", "Value"])
+			.body(
+				appearance.map(({ label, value }) => [
+					label,
+					value || chalk.gray("not set"),
+				]),
+			)
+			.padding(2)
+			.border(true)
+			.toString(),
+	);
+	console.log(
+		chalk.yellow("Enabled applets: ") +
+			(enabledApplets.length > 0
+				? enabledApplets
+					.map(({ uuid, instances }) =>
+						instances > 1 ? `${uuid} (×${instances})` : uuid
+					)
+					.join(", ")
+				: chalk.gray("none recorded")),
+	);
 
-			// dump dconf settings for backup
-			if (componentOptions.dconf) {
-				const dconfDumpPath = join(tempDir, DCONF_SETTINGS_FILE);
-				console.log(
-					chalk.gray(
-						`Dumping dconf settings for /org/cinnamon/ to ${
-							basename(
-								dconfDumpPath,
-							)
-						} for backup...`,
-					),
-				);
-				const dconfDumpResult = await executeCommand("dconf", [
-					"dump",
-					"/org/cinnamon/",
-				]);
-				if (dconfDumpResult.success && dconfDumpResult.stdout) {
-					await Deno.writeTextFile(
-						dconfDumpPath,
-						dconfDumpResult.stdout,
-					);
-					console.log(
-						chalk.gray(
-							"dconf settings dumped successfully for backup.",
-						),
-					);
-				} else {
-					console.warn(
-						chalk.yellow(
-							`Warning: Failed to dump dconf settings for /org/cinnamon/ during backup. Backup will not include them.`,
-						),
-					);
-					console.warn(
-						chalk.gray(`dconf stderr: ${dconfDumpResult.stderr}`),
-					);
-				}
-			} else {
-				console.log(
-					chalk.gray(
-						"Skipping dconf settings backup (disabled by option).",
-					),
-				);
-			}
+	if (exportMetadata) {
+		console.log(
+			chalk.yellow("Export metadata: ") +
+				[
+					`profile "${exportMetadata.profileName}"`,
+					`exported ${exportMetadata.exportedAt}`,
+					`by ${exportMetadata.appName} ${exportMetadata.appVersion}`,
+				].join(", "),
+		);
+	}
 
-			console.log(chalk.gray(`Zipping backup to ${backupFile}...`));
-			return await zipDirectoryContents(tempDir, backupFile);
-		},
-	);
+	if (!manifest) {
+		console.log(
+			chalk.yellow(
+				"No spice manifest was recorded for this archive. Update the profile to record one.",
+			),
+		);
+		return;
+	}
+	if (manifest.spices.length === 0) {
+		console.log(chalk.gray("No spices are installed or enabled."));
+		return;
+	}
 
-	return success ? backupFile : null;
+	const table = new Table()
+		.header(["Type", "UUID", "Version", "Enabled", "Code"])
+		.body(
+			manifest.spices.map((spice) => [
+				spice.type,
+				spice.name
+					? `${spice.uuid} ${chalk.gray(`(${spice.name})`)}`
+					: spice.uuid,
+				spice.version ?? chalk.gray("-"),
+				spice.instances.length > 0
+					? String(spice.instances.length)
+					: chalk.gray("no"),
+				spice.bundled
+					? "bundled"
+					: missing.has(spice)
+					? chalk.red("missing")
+					: "system",
+			]),
+		)
+		.padding(2)
+		.border(true);
+	console.log(table.toString());
+	if (missing.size > 0) {
+		console.warn(
+			chalk.yellow(
+				`${missing.size} enabled spice(s) are neither bundled nor installed on this system.`,
+			),
+		);
+	}
 }
 
 /**
- * Copies theme directories from both user and system locations
+ * Check profiles and backups against the checksums recorded in them
  */
-async function copyThemeDirectories(
-	tempDir: string,
-	options: ComponentOptions,
+async function verifyArchivesCmd(
+	name: string | undefined,
+	options: { all?: boolean; backups?: boolean },
 ): Promise<void> {
-	if (options.userThemes) {
-		const tempUserThemesDir = join(tempDir, "user-themes");
-		console.log(chalk.gray("Copying user themes from ~/.themes..."));
-		if (await exists(THEME_PATHS.USER_THEMES_DIR)) {
-			await copyDirectoryContents(
-				THEME_PATHS.USER_THEMES_DIR,
-				tempUserThemesDir,
+	const targets: { label: string; zipFile: string }[] = [];
+	if (name) {
+		const archive = await resolveArchiveSpec(name);
+		if (!archive) {
+			console.error(
+				chalk.red(`Error: Profile or backup "${name}" not found.`),
 			);
-		} else {
-			console.log(
-				chalk.gray("No user themes directory found, skipping."),
+			Deno.exit(1);
+		}
+		targets.push(archive);
+	}
+	if (options.all) {
+		for (const profile of await readProfiles()) {
+			targets.push({
+				label: `profile "${profile.name}"`,
+				zipFile: profile.zipFile,
+			});
+		}
+	}
+	if (options.backups) {
+		for (const backup of await readBackupFiles()) {
+			targets.push({ label: backup.filename, zipFile: backup.fullPath });
+		}
+	}
+	if (!name && !options.all && !options.backups) {
+		const active = (await readProfiles()).find((p) => p.active);
+		if (!active) {
+			console.error(
+				chalk.red(
+					"Error: No active profile. Name a profile or backup, or use --all or --backups.",
+				),
 			);
+			Deno.exit(1);
 		}
-	} else {
-		console.log(chalk.gray("Skipping user themes (disabled by option)."));
+		targets.push({
+			label: `profile "${active.name}"`,
+			zipFile: active.zipFile,
+		});
+	}
+	if (targets.length === 0) {
+		console.log(chalk.gray("Nothing to verify."));
+		setJsonResult({ archives: [] });
+		return;
 	}
 
-	if (options.systemThemes) {
-		const tempSystemThemesDir = join(tempDir, "system-themes");
-		console.log(
-			chalk.gray("Copying system themes from /usr/share/themes..."),
-		);
-		if (await exists(THEME_PATHS.SYSTEM_THEMES_DIR)) {
-			try {
-				await copyDirectoryContents(
-					THEME_PATHS.SYSTEM_THEMES_DIR,
-					tempSystemThemesDir,
-				);
-			} catch (error) {
-				console.warn(
-					chalk.yellow(
-						`Warning: Could not copy system themes (permission issue?): ${
-							error instanceof Error
-								? error.message
-								: "Unknown error"
-						}`,
-					),
-				);
-			}
-		} else {
-			console.log(
-				chalk.gray("No system themes directory found, skipping."),
-			);
+	const results = [];
+	for (const target of targets) {
+		console.log(chalk.gray(`Verifying ${target.label}...`));
+		results.push({ ...target, ...(await verifyArchive(target.zipFile)) });
+	}
+	setJsonResult({
+		archives: results.map((result) => ({
+			archive: result.label,
+			zipFile: result.zipFile,
+			ok: result.problems.length === 0,
+			hasManifest: result.hasManifest,
+			files: result.files,
+			problems: result.problems,
+		})),
+	});
+
+	const table = new Table()
+		.header(["Archive", "Files", "Result"])
+		.body(
+			results.map((result) => [
+				result.label,
+				String(result.files),
+				result.problems.length > 0
+					? chalk.red(`${result.problems.length} problem(s)`)
+					: result.hasManifest
+					? chalk.green("OK")
+					: chalk.yellow("readable (no manifest)"),
+			]),
+		)
+		.padding(2)
+		.border(true);
+	console.log(table.toString());
+
+	const damaged = results.filter((result) => result.problems.length > 0);
+	if (damaged.length > 0) {
+		for (const result of damaged) {
+			console.error(chalk.red(`${result.label} is damaged:`));
+			printVerifyProblems(result.problems);
 		}
-	} else {
-		console.log(chalk.gray("Skipping system themes (not enabled)."));
+		Deno.exit(1);
 	}
 }
 
 /**
- * Copies icon directories from user and system locations
+ * Delete an existing profile
  */
-async function copyIconDirectories(
-	tempDir: string,
-	options: ComponentOptions,
-): Promise<void> {
-	if (options.userIcons) {
-		const tempUserIconsDir = join(tempDir, "user-icons");
-		console.log(
-			chalk.gray("Copying user icons from ~/.local/share/icons..."),
-		);
-		if (await exists(ICON_PATHS.USER_ICONS_DIR)) {
-			await copyDirectoryContents(
-				ICON_PATHS.USER_ICONS_DIR,
-				tempUserIconsDir,
+async function deleteProfile(name: string): Promise<void> {
+	console.log(chalk.yellow(`Deleting profile: ${name}`));
+	const profiles = await readProfiles();
+	const profileIndex = profiles.findIndex((p) => p.name === name);
+
+	if (profileIndex === -1) {
+		console.error(chalk.red(`Error: Profile "${name}" not found.`));
+		Deno.exit(1);
+	}
+
+	const profileToDelete = profiles[profileIndex];
+
+	try {
+		if (await exists(profileToDelete.zipFile)) {
+			await Deno.remove(profileToDelete.zipFile);
+			console.log(
+				chalk.gray(
+					`Deleted profile archive: ${
+						basename(
+							profileToDelete.zipFile,
+						)
+					}`,
+				),
 			);
 		} else {
-			console.log(chalk.gray("No user icons directory found, skipping."));
+			console.warn(
+				chalk.yellow(
+					`Warning: Profile archive not found: ${
+						basename(
+							profileToDelete.zipFile,
+						)
+					}`,
+				),
+			);
 		}
-	} else {
-		console.log(
-			chalk.gray(
-				"Skipping user icons from ~/.local/share/icons (disabled by option).",
+	} catch (error) {
+		console.error(
+			chalk.red(
+				`Error deleting profile archive ${
+					basename(
+						profileToDelete.zipFile,
+					)
+				}: ${error instanceof Error ? error.message : "Unknown error"}`,
 			),
 		);
 	}
 
-	if (options.userIconsAlt) {
-		const tempUserIconsAltDir = join(tempDir, "user-icons-alt");
-		console.log(chalk.gray("Copying user icons from ~/.icons..."));
-		if (await exists(ICON_PATHS.USER_ICONS_ALT_DIR)) {
-			await copyDirectoryContents(
-				ICON_PATHS.USER_ICONS_ALT_DIR,
-				tempUserIconsAltDir,
-			);
-		} else {
-			console.log(chalk.gray("No ~/.icons directory found, skipping."));
-		}
-	} else {
-		console.log(
-			chalk.gray(
-				"Skipping user icons from ~/.icons (disabled by option).",
+	profiles.splice(profileIndex, 1);
+	await writeProfiles(profiles);
+	await collectGarbageAndReport();
+	setJsonResult({ profile: name });
+	console.log(
+		chalk.green(`Profile "${name}" deleted successfully from records.`),
+	);
+}
+
+/**
+ * Makes a profile name safe to use in file names, as import does.
+ */
+function sanitizeProfileName(name: string): string {
+	return name.trim().replace(/[^a-zA-Z0-9-_]/g, "_");
+}
+
+/**
+ * Validates the name for a renamed or cloned profile, exiting if it cannot be used.
+ */
+function resolveNewProfileName(name: string, profiles: Profile[]): string {
+	const sanitized = sanitizeProfileName(name);
+	if (!sanitized) {
+		console.error(chalk.red("Error: The new profile name is empty."));
+		Deno.exit(1);
+	}
+	if (sanitized !== name) {
+		console.log(chalk.gray(`Using sanitized name "${sanitized}".`));
+	}
+	if (profiles.some((p) => p.name === sanitized)) {
+		console.error(
+			chalk.red(
+				`Error: Profile with name "${sanitized}" already exists.`,
 			),
 		);
+		Deno.exit(1);
 	}
+	return sanitized;
+}
 
-	if (options.systemIcons) {
-		const tempSystemIconsDir = join(tempDir, "system-icons");
-		console.log(
-			chalk.gray("Copying system icons from /usr/share/icons..."),
-		);
-		if (await exists(ICON_PATHS.SYSTEM_ICONS_DIR)) {
+/**
+ * Writes a copy of a profile's archive for a profile with another name, updating
+ * the name in the embedded export metadata. Returns the new archive, or null on failure.
+ */
+async function copyProfileArchive(
+	profile: Profile,
+	newName: string,
+): Promise<string | null> {
+	return await withTempDir({ prefix: "cinnamon-copy-" }, async (tempDir) => {
+		if (!(await unzipArchive(profile.zipFile, tempDir))) {
+			return null;
+		}
+		const metadataFile = join(tempDir, EXPORT_METADATA_FILE);
+		if (await exists(metadataFile)) {
 			try {
-				await copyDirectoryContents(
-					ICON_PATHS.SYSTEM_ICONS_DIR,
-					tempSystemIconsDir,
+				const metadata = JSON.parse(
+					await Deno.readTextFile(metadataFile),
 				);
-			} catch (error) {
-				console.warn(
-					chalk.yellow(
-						`Warning: Could not copy system icons (permission issue?): ${
-							error instanceof Error
-								? error.message
-								: "Unknown error"
-						}`,
-					),
+				metadata.profileName = newName;
+				await Deno.writeTextFile(
+					metadataFile,
+					JSON.stringify(metadata, null, 2),
 				);
+			} catch (_e) {
+				/* unreadable metadata is copied as it is */
+			}
+			if (await exists(join(tempDir, ARCHIVE_MANIFEST_FILE))) {
+				await writeArchiveManifest(tempDir, profile.components);
 			}
-		} else {
-			console.log(
-				chalk.gray("No system icons directory found, skipping."),
-			);
 		}
-	} else {
-		console.log(chalk.gray("Skipping system icons (not enabled)."));
-	}
+
+		const zipFile = join(
+			APP_PATHS.CUSTOM_PROFILES_ROOT_DIR,
+			`${newName}-${crypto.randomUUID()}${SNAPSHOT_EXTENSION}`,
+		);
+		console.log(
+			chalk.gray(`Writing profile archive ${basename(zipFile)}...`),
+		);
+		return (await zipDirectoryContents(tempDir, zipFile)) ? zipFile : null;
+	});
 }
 
 /**
- * Copies font directories from user and system locations
+ * Points the auto rules for a renamed profile to its new name.
+ * Returns how many rules were changed.
  */
-async function copyFontDirectories(
-	tempDir: string,
-	options: ComponentOptions,
-): Promise<void> {
-	if (options.userFonts) {
-		const tempUserFontsDir = join(tempDir, "user-fonts");
-		console.log(
-			chalk.gray("Copying user fonts from ~/.local/share/fonts..."),
-		);
-		if (await exists(FONT_PATHS.USER_FONTS_DIR)) {
-			await copyDirectoryContents(
-				FONT_PATHS.USER_FONTS_DIR,
-				tempUserFontsDir,
-			);
-		} else {
-			console.log(chalk.gray("No user fonts directory found, skipping."));
+async function renameProfileInAutoRules(
+	oldName: string,
+	newName: string,
+): Promise<number> {
+	if (!(await exists(APP_PATHS.CONFIG_FILE))) {
+		return 0;
+	}
+	// edit the stored file rather than readConfig(), which would write the defaults into it
+	let stored: Record<string, unknown>;
+	try {
+		stored = JSON.parse(await Deno.readTextFile(APP_PATHS.CONFIG_FILE));
+	} catch (_e) {
+		return 0; // readConfig() warns about unparseable settings
+	}
+	if (!isPlainObject(stored) || !Array.isArray(stored.autoRules)) {
+		return 0;
+	}
+	let changed = 0;
+	for (const rule of stored.autoRules) {
+		if (isPlainObject(rule) && rule.profile === oldName) {
+			rule.profile = newName;
+			changed++;
 		}
-	} else {
-		console.log(
-			chalk.gray(
-				"Skipping user fonts from ~/.local/share/fonts (disabled by option).",
-			),
+	}
+	if (changed > 0) {
+		await writeFileAtomic(
+			APP_PATHS.CONFIG_FILE,
+			JSON.stringify(stored, null, 2),
 		);
 	}
+	return changed;
+}
 
-	if (options.userFontsAlt) {
-		const tempUserFontsAltDir = join(tempDir, "user-fonts-home");
-		console.log(chalk.gray("Copying user fonts from ~/.fonts..."));
-		if (await exists(FONT_PATHS.USER_FONTS_ALT_DIR)) {
-			await copyDirectoryContents(
-				FONT_PATHS.USER_FONTS_ALT_DIR,
-				tempUserFontsAltDir,
-			);
-		} else {
-			console.log(chalk.gray("No ~/.fonts directory found, skipping."));
-		}
-	} else {
-		console.log(
-			chalk.gray(
-				"Skipping user fonts from ~/.fonts (disabled by option).",
+/**
+ * Rename a profile, keeping its metadata and active state
+ */
+async function renameProfile(oldName: string, newName: string): Promise<void> {
+	const profiles = await readProfiles();
+	const profile = profiles.find((p) => p.name === oldName);
+	if (!profile) {
+		console.error(chalk.red(`Error: Profile "${oldName}" not found.`));
+		Deno.exit(1);
+	}
+	const name = resolveNewProfileName(newName, profiles);
+	console.log(chalk.yellow(`Renaming profile "${oldName}" to "${name}"`));
+
+	const zipFile = await copyProfileArchive(profile, name);
+	if (!zipFile) {
+		console.error(chalk.red("Renaming the profile failed."));
+		Deno.exit(1);
+	}
+	const oldZipFile = profile.zipFile;
+	profile.name = name;
+	profile.zipFile = zipFile;
+	await writeProfiles(profiles);
+	// the old archive is only removed once the database points to the new one
+	await Deno.remove(oldZipFile).catch(() => {});
+	await collectGarbageAndReport();
+
+	let updatedRules = 0;
+	try {
+		updatedRules = await renameProfileInAutoRules(oldName, name);
+	} catch (e) {
+		console.warn(
+			chalk.yellow(
+				`Warning: Could not update the auto rules in ${APP_PATHS.CONFIG_FILE}: ${
+					e instanceof Error ? e.message : "Unknown error"
+				}. Change "${oldName}" to "${name}" there by hand.`,
 			),
 		);
 	}
-
-	if (options.systemFonts) {
-		const tempSystemFontsDir = join(tempDir, "system-fonts");
+	if (updatedRules > 0) {
 		console.log(
-			chalk.gray("Copying system fonts from /usr/share/fonts..."),
+			chalk.gray(`Updated ${updatedRules} auto rule(s) to the new name.`),
 		);
-		if (await exists(FONT_PATHS.SYSTEM_FONTS_DIR)) {
-			try {
-				await copyDirectoryContents(
-					FONT_PATHS.SYSTEM_FONTS_DIR,
-					tempSystemFontsDir,
-				);
-			} catch (error) {
-				console.warn(
-					chalk.yellow(
-						`Warning: Could not copy system fonts (permission issue?): ${
-							error instanceof Error
-								? error.message
-								: "Unknown error"
-						}`,
-					),
-				);
-			}
-		} else {
-			console.log(
-				chalk.gray("No system fonts directory found, skipping."),
-			);
-		}
-	} else {
-		console.log(chalk.gray("Skipping system fonts (not enabled)."));
 	}
+
+	setJsonResult({
+		profile: name,
+		previousName: oldName,
+		zipFile,
+		updatedRules,
+	});
+	console.log(chalk.green(`Profile "${oldName}" renamed to "${name}".`));
 }
 
 /**
- * Copies theme, icon, and font directories from both user and system locations
+ * Copy a profile under a new name as a starting point for a variant
  */
-async function copyThemeIconAndFontDirectories(
-	tempDir: string,
-	options: ComponentOptions,
+async function cloneProfile(
+	source: string,
+	destination: string,
 ): Promise<void> {
-	await copyThemeDirectories(tempDir, options);
-	await copyIconDirectories(tempDir, options);
-	await copyFontDirectories(tempDir, options);
+	const profiles = await readProfiles();
+	const profile = profiles.find((p) => p.name === source);
+	if (!profile) {
+		console.error(chalk.red(`Error: Profile "${source}" not found.`));
+		Deno.exit(1);
+	}
+	const name = resolveNewProfileName(destination, profiles);
+	console.log(chalk.yellow(`Cloning profile "${source}" as "${name}"`));
+
+	const zipFile = await copyProfileArchive(profile, name);
+	if (!zipFile) {
+		console.error(chalk.red("Cloning the profile failed."));
+		Deno.exit(1);
+	}
+	const now = new Date().toISOString();
+	profiles.push({
+		...profile,
+		name,
+		active: false,
+		zipFile,
+		tags: [...profile.tags],
+		createdAt: now,
+		updatedAt: profile.updatedAt,
+		lastActivatedAt: null,
+	});
+	await writeProfiles(profiles);
+
+	setJsonResult({ profile: name, source, zipFile });
+	console.log(chalk.green(`Profile "${source}" cloned as "${name}".`));
+	console.log(
+		chalk.gray(`Use '${PROGRAM_NAME} switch "${name}"' to activate it.`),
+	);
 }
 
 /**
- * Restores theme directories to both user and system locations
+ * Reset the application (delete profile directory)
  */
-async function restoreThemeDirectories(
-	tempDir: string,
-	options: ComponentOptions,
-): Promise<void> {
-	if (options.userThemes) {
-		const tempUserThemesDir = join(tempDir, "user-themes");
-		console.log(chalk.gray("Restoring user themes to ~/.themes..."));
-		if (await exists(tempUserThemesDir)) {
-			// ensure user themes directory exists
-			await Deno.mkdir(THEME_PATHS.USER_THEMES_DIR, { recursive: true });
-			await copyDirectoryContents(
-				tempUserThemesDir,
-				THEME_PATHS.USER_THEMES_DIR,
-			);
-		} else {
-			console.log(
-				chalk.gray("No user themes found in backup, skipping."),
-			);
-		}
-	} else {
+async function resetApplication(): Promise<void> {
+	console.log(
+		chalk.redBright.bold(
+			"WARNING: This will delete ALL profiles, backups, and manager settings!",
+		),
+	);
+	const confirm1 = confirmAction(
+		chalk.yellow("Are you absolutely sure you want to continue?"),
+	);
+	if (!confirm1) {
+		console.log(chalk.gray("Reset aborted."));
+		Deno.exit(0);
+	}
+	console.log(
+		chalk.redBright("This action CANNOT be undone. All data in ") +
+			chalk.cyan(APP_PATHS.CUSTOM_PROFILES_ROOT_DIR) +
+			chalk.redBright(" will be lost."),
+	);
+	const confirm2 = confirmAction(
+		chalk.yellow("Final confirmation: Delete everything?"),
+	);
+	if (!confirm2) {
+		console.log(chalk.gray("Reset aborted."));
+		Deno.exit(0);
+	}
+
+	try {
 		console.log(
 			chalk.gray(
-				"Skipping user themes restoration (disabled by option).",
+				`Deleting directory: ${APP_PATHS.CUSTOM_PROFILES_ROOT_DIR}`,
 			),
 		);
-	}
-
-	if (options.systemThemes) {
-		const tempSystemThemesDir = join(tempDir, "system-themes");
+		await Deno.remove(APP_PATHS.CUSTOM_PROFILES_ROOT_DIR, {
+			recursive: true,
+		});
+		setJsonResult({ deleted: APP_PATHS.CUSTOM_PROFILES_ROOT_DIR });
+		console.log(chalk.green("Application reset successfully."));
 		console.log(
-			chalk.gray("Restoring system themes to /usr/share/themes..."),
+			chalk.gray(
+				"All profiles, backups, and settings have been deleted. The profiles directory will be recreated on next run.",
+			),
 		);
-		if (await exists(tempSystemThemesDir)) {
-			try {
-				await copyDirectoryContents(
-					tempSystemThemesDir,
-					THEME_PATHS.SYSTEM_THEMES_DIR,
-				);
-			} catch (error) {
-				console.warn(
-					chalk.yellow(
-						`Warning: Could not restore system themes (permission issue?): ${
-							error instanceof Error
-								? error.message
-								: "Unknown error"
-						}. You may need to manually copy themes with elevated privileges.`,
-					),
-				);
-			}
-		} else {
-			console.log(
-				chalk.gray("No system themes found in backup, skipping."),
-			);
-		}
-	} else {
-		console.log(
-			chalk.gray("Skipping system themes restoration (not enabled)."),
+	} catch (error) {
+		console.error(
+			chalk.red(
+				`Error during reset: ${
+					error instanceof Error ? error.message : "Unknown error"
+				}`,
+			),
+		);
+		console.error(
+			chalk.yellow(
+				"The application data directory might be in an inconsistent state.",
+			),
 		);
+		Deno.exit(1);
+	}
+}
+
+/**
+ * Lists the files of a staged archive that may contain home paths: the dconf dumps
+ * and everything below config/ and share/.
+ */
+async function listPathBearingFiles(stagedDir: string): Promise<string[]> {
+	const files = [...(await listDconfDumps(stagedDir)).values()];
+	for (const dir of ["config", "share"]) {
+		for (const path of await listFilesRecursive(join(stagedDir, dir))) {
+			files.push(join(stagedDir, dir, path));
+		}
 	}
+	return files;
 }
 
 /**
- * Restores icon directories to user and system locations
+ * Reads a file as text, or returns null if it is binary (not valid UTF-8, or contains NUL bytes).
  */
-async function restoreIconDirectories(
-	tempDir: string,
-	options: ComponentOptions,
-): Promise<void> {
-	if (options.userIcons) {
-		const tempUserIconsDir = join(tempDir, "user-icons");
-		console.log(
-			chalk.gray("Restoring user icons to ~/.local/share/icons..."),
+async function readTextFileIfText(path: string): Promise<string | null> {
+	try {
+		const content = new TextDecoder("utf-8", { fatal: true }).decode(
+			await Deno.readFile(path),
 		);
-		if (await exists(tempUserIconsDir)) {
-			// ensure user icons directory exists
-			await Deno.mkdir(ICON_PATHS.USER_ICONS_DIR, { recursive: true });
-			await copyDirectoryContents(
-				tempUserIconsDir,
-				ICON_PATHS.USER_ICONS_DIR,
-			);
-		} else {
-			console.log(chalk.gray("No user icons found in backup, skipping."));
+		return content.includes("\0") ? null : content;
+	} catch (_e) {
+		return null;
+	}
+}
+
+/**
+ * Applies a rewrite to every text file of a staged archive that may contain home paths.
+ * Returns how many files changed.
+ */
+async function rewritePathBearingFiles(
+	stagedDir: string,
+	rewrite: (content: string) => string,
+): Promise<number> {
+	let changed = 0;
+	for (const path of await listPathBearingFiles(stagedDir)) {
+		const content = await readTextFileIfText(path);
+		if (content === null) continue;
+		const rewritten = rewrite(content);
+		if (rewritten !== content) {
+			await Deno.writeTextFile(path, rewritten);
+			changed++;
 		}
-	} else {
+	}
+	return changed;
+}
+
+/**
+ * Replaces the current home directory in a staged archive with HOME_PLACEHOLDER,
+ * so the profile works for whoever imports it.
+ */
+async function templateHomePaths(stagedDir: string): Promise<void> {
+	// only whole path segments, so /home/al does not match /home/alice
+	const home = new RegExp(
+		`${ENV.HOME!.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}(?![\\w.-])`,
+		"g",
+	);
+	const changed = await rewritePathBearingFiles(
+		stagedDir,
+		(content) => content.replace(home, () => HOME_PLACEHOLDER),
+	);
+	if (changed > 0) {
 		console.log(
 			chalk.gray(
-				"Skipping user icons restoration to ~/.local/share/icons (disabled by option).",
+				`Replaced ${ENV.HOME} with ${HOME_PLACEHOLDER} in ${changed} file(s).`,
 			),
 		);
 	}
+}
 
-	if (options.userIconsAlt) {
-		const tempUserIconsAltDir = join(tempDir, "user-icons-alt");
-		console.log(chalk.gray("Restoring user icons to ~/.icons..."));
-		if (await exists(tempUserIconsAltDir)) {
-			// ensure user icons alt directory exists
-			await Deno.mkdir(ICON_PATHS.USER_ICONS_ALT_DIR, {
-				recursive: true,
-			});
-			await copyDirectoryContents(
-				tempUserIconsAltDir,
-				ICON_PATHS.USER_ICONS_ALT_DIR,
-			);
-		} else {
-			console.log(chalk.gray("No ~/.icons found in backup, skipping."));
-		}
-	} else {
+/**
+ * Replaces HOME_PLACEHOLDER in a staged archive with the current home directory,
+ * then warns about absolute paths in it that do not exist on this system.
+ */
+async function expandHomePaths(stagedDir: string): Promise<void> {
+	const changed = await rewritePathBearingFiles(
+		stagedDir,
+		(content) => content.replaceAll(HOME_PLACEHOLDER, ENV.HOME!),
+	);
+	if (changed > 0) {
 		console.log(
 			chalk.gray(
-				"Skipping user icons restoration to ~/.icons (disabled by option).",
+				`Expanded ${HOME_PLACEHOLDER} to ${ENV.HOME} in ${changed} file(s).`,
 			),
 		);
 	}
 
-	if (options.systemIcons) {
-		const tempSystemIconsDir = join(tempDir, "system-icons");
-		console.log(
-			chalk.gray("Restoring system icons to /usr/share/icons..."),
+	const missing = new Set<string>();
+	for (const path of await listPathBearingFiles(stagedDir)) {
+		const content = await readTextFileIfText(path);
+		if (content === null) continue;
+		for (
+			const [absolutePath] of content.matchAll(FILESYSTEM_PATH_PATTERN)
+		) {
+			if (
+				absolutePath !== ENV.HOME &&
+				!absolutePath.startsWith(`${ENV.HOME}/`) &&
+				!missing.has(absolutePath) &&
+				!(await exists(absolutePath))
+			) {
+				missing.add(absolutePath);
+			}
+		}
+	}
+	if (missing.size > 0) {
+		console.warn(
+			chalk.yellow(
+				`Warning: The settings refer to ${missing.size} path(s) outside your home directory that do not exist on this system:`,
+			),
 		);
-		if (await exists(tempSystemIconsDir)) {
-			try {
-				await copyDirectoryContents(
-					tempSystemIconsDir,
-					ICON_PATHS.SYSTEM_ICONS_DIR,
-				);
-			} catch (error) {
-				console.warn(
-					chalk.yellow(
-						`Warning: Could not restore system icons (permission issue?): ${
-							error instanceof Error
-								? error.message
-								: "Unknown error"
-						}. You may need to manually copy icons with elevated privileges.`,
-					),
-				);
+		for (const path of [...missing].slice(0, 10)) {
+			console.warn(chalk.yellow(`  ${path}`));
+		}
+		if (missing.size > 10) {
+			console.warn(chalk.yellow(`  ...and ${missing.size - 10} more`));
+		}
+	}
+}
+
+/**
+ * Scans the spice settings of a staged archive for credentials, redacting the
+ * settings that match a redaction rule unless `redact` is false.
+ * Settings still at their default value are never reported.
+ */
+async function scanSpiceSecrets(
+	stagedDir: string,
+	rules: string[],
+	redact: boolean,
+): Promise<SecretFinding[]> {
+	const patterns = rules.map((rule) => rule.toLowerCase());
+	const spicesDir = join(stagedDir, "config", "spices");
+	const findings: SecretFinding[] = [];
+	for (const file of await listFilesRecursive(spicesDir)) {
+		if (!file.endsWith(".json")) continue;
+		const uuid = file.split("/")[0];
+		let settings: Record<string, unknown>;
+		try {
+			settings = JSON.parse(
+				await Deno.readTextFile(join(spicesDir, file)),
+			);
+		} catch (_e) {
+			continue;
+		}
+		if (!isPlainObject(settings)) continue;
+
+		let changed = false;
+		for (const [key, setting] of Object.entries(settings)) {
+			if (!isPlainObject(setting) || !("value" in setting)) continue;
+			const value = setting.value;
+			if (
+				value === "" || value === null ||
+				JSON.stringify(value) === JSON.stringify(setting.default)
+			) {
+				continue;
 			}
-		} else {
-			console.log(
-				chalk.gray("No system icons found in backup, skipping."),
+			const name = `${uuid}/${key}`;
+			const matchesRule = matchesAnyGlob(name.toLowerCase(), patterns);
+			const looksLikeToken = typeof value === "string" &&
+				SECRET_VALUE_PATTERN.test(value) && /\d/.test(value) &&
+				/[a-z]/i.test(value);
+			if (!matchesRule && !looksLikeToken) continue;
+
+			if (matchesRule && redact) {
+				setting.value = setting.default ??
+					(typeof value === "string" ? "" : null);
+				changed = true;
+			}
+			findings.push({
+				setting: name,
+				file: join("config", "spices", file),
+				reason: matchesRule
+					? "redaction rule"
+					: "value looks like a token",
+				redacted: matchesRule && redact,
+			});
+		}
+		if (changed) {
+			await Deno.writeTextFile(
+				join(spicesDir, file),
+				JSON.stringify(settings, null, 4),
 			);
 		}
-	} else {
-		console.log(
-			chalk.gray("Skipping system icons restoration (not enabled)."),
-		);
 	}
+	return findings;
 }
 
 /**
- * Restores font directories to user and system locations
+ * Export a profile to a zip file (by default in Downloads or Home), or stream it to stdout.
  */
-async function restoreFontDirectories(
-	tempDir: string,
-	options: ComponentOptions,
+async function exportProfile(
+	name: string,
+	options: ExportOptions,
 ): Promise<void> {
-	if (options.userFonts) {
-		const tempUserFontsDir = join(tempDir, "user-fonts");
-		console.log(
-			chalk.gray("Restoring user fonts to ~/.local/share/fonts..."),
+	console.log(chalk.yellow(`Exporting profile: ${name}`));
+	const profiles = await readProfiles();
+	const profile = profiles.find((p) => p.name === name);
+	if (!profile) {
+		console.error(chalk.red(`Error: Profile "${name}" not found.`));
+		Deno.exit(1);
+	}
+	const toStdout = options.output === "-";
+	if (toStdout && RUNTIME_FLAGS.json) {
+		console.error(
+			chalk.red("Error: --output - cannot be combined with --json."),
 		);
-		if (await exists(tempUserFontsDir)) {
-			// ensure user fonts directory exists
-			await Deno.mkdir(FONT_PATHS.USER_FONTS_DIR, { recursive: true });
-			await copyDirectoryContents(
-				tempUserFontsDir,
-				FONT_PATHS.USER_FONTS_DIR,
+		Deno.exit(1);
+	}
+
+	const excluded = new Set<string>();
+	for (
+		const value of (options.exclude ?? []).flatMap((v) => v.split(","))
+	) {
+		const component = value.trim();
+		if (component === "") continue;
+		const archiveDirs = EXPORT_EXCLUDE_GROUPS[component] ??
+			(component === "dconf" ||
+					ASSET_COMPONENT_DIRS.some((c) => c.archiveDir === component)
+				? [component]
+				: null);
+		if (!archiveDirs) {
+			console.error(
+				chalk.red(
+					`Error: Unknown component "${component}" for --exclude. Valid components: ${
+						[
+							...Object.keys(EXPORT_EXCLUDE_GROUPS),
+							...ASSET_COMPONENT_DIRS.map((c) => c.archiveDir),
+							"dconf",
+						].join(", ")
+					}.`,
+				),
 			);
-		} else {
-			console.log(chalk.gray("No user fonts found in backup, skipping."));
+			Deno.exit(1);
 		}
-	} else {
-		console.log(
-			chalk.gray(
-				"Skipping user fonts restoration to ~/.local/share/fonts (disabled by option).",
-			),
-		);
+		archiveDirs.forEach((dir) => excluded.add(dir));
 	}
 
-	if (options.userFontsAlt) {
-		const tempUserFontsAltDir = join(tempDir, "user-fonts-home");
-		console.log(chalk.gray("Restoring user fonts to ~/.fonts..."));
-		if (await exists(tempUserFontsAltDir)) {
-			// ensure user fonts alt directory exists
-			await Deno.mkdir(FONT_PATHS.USER_FONTS_ALT_DIR, {
-				recursive: true,
-			});
-			await copyDirectoryContents(
-				tempUserFontsAltDir,
-				FONT_PATHS.USER_FONTS_ALT_DIR,
+	const safeName = name.replace(/[^a-zA-Z0-9-_]/g, "_");
+	const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
+	const exportFileName =
+		`cinnamon-profile-${safeName}-export-${timestamp}.zip`;
+	let exportPath: string;
+	if (toStdout) {
+		exportPath = await Deno.makeTempFile({
+			prefix: "cinnamon-export-",
+			suffix: ".zip",
+		});
+	} else if (options.output) {
+		const isDirectory = options.output.endsWith("/") ||
+			await Deno.stat(options.output).then((s) => s.isDirectory).catch(
+				() => false,
 			);
-		} else {
-			console.log(chalk.gray("No ~/.fonts found in backup, skipping."));
+		exportPath = isDirectory
+			? join(options.output, exportFileName)
+			: options.output;
+		const parentIsDirectory = await Deno.stat(dirname(exportPath)).then(
+			(s) => s.isDirectory,
+		).catch(() => false);
+		if (!parentIsDirectory) {
+			console.error(
+				chalk.red(
+					`Error: Directory ${dirname(exportPath)} does not exist.`,
+				),
+			);
+			Deno.exit(1);
+		}
+		if (
+			(await exists(exportPath)) &&
+			!confirmAction(
+				chalk.yellow(`${exportPath} already exists. Overwrite it?`),
+			)
+		) {
+			console.log(chalk.gray("Export cancelled."));
+			Deno.exit(0);
 		}
 	} else {
-		console.log(
-			chalk.gray(
-				"Skipping user fonts restoration to ~/.fonts (disabled by option).",
-			),
-		);
+		const downloadsDir = ENV.HOME ? join(ENV.HOME, "Downloads") : null;
+		let targetDir = ENV.HOME!; // fallback to HOME
+		if (downloadsDir) {
+			try {
+				if (
+					(await exists(downloadsDir)) &&
+					(await Deno.stat(downloadsDir)).isDirectory
+				) {
+					targetDir = downloadsDir;
+				}
+			} catch (_e) {
+				/* ignore if Downloads dir check fails, use HOME */
+			}
+		}
+		exportPath = join(targetDir, exportFileName);
 	}
 
-	if (options.systemFonts) {
-		const tempSystemFontsDir = join(tempDir, "system-fonts");
-		console.log(
-			chalk.gray("Restoring system fonts to /usr/share/fonts..."),
-		);
-		if (await exists(tempSystemFontsDir)) {
-			try {
-				await copyDirectoryContents(
-					tempSystemFontsDir,
-					FONT_PATHS.SYSTEM_FONTS_DIR,
+	const success = await withTempDir(
+		{ prefix: "cinnamon-export-" },
+		async (tempDir) => {
+			console.log(
+				chalk.gray(
+					`Extracting profile data from ${
+						basename(
+							profile.zipFile,
+						)
+					}...`,
+				),
+			);
+			if (!(await unzipArchive(profile.zipFile, tempDir))) {
+				return false;
+			}
+
+			const components = profile.components
+				? { ...profile.components }
+				: null;
+			for (const dir of excluded) {
+				console.log(chalk.gray(`Leaving out ${dir}...`));
+				if (dir === "dconf") {
+					for (
+						const dump of (await listDconfDumps(tempDir)).values()
+					) {
+						await Deno.remove(dump);
+					}
+					if (components) components.dconf = false;
+					continue;
+				}
+				await Deno.remove(join(tempDir, dir), { recursive: true })
+					.catch(
+						() => {},
+					);
+				const asset = ASSET_COMPONENT_DIRS.find((c) =>
+					c.archiveDir === dir
 				);
-			} catch (error) {
-				console.warn(
-					chalk.yellow(
-						`Warning: Could not restore system fonts (permission issue?): ${
-							error instanceof Error
-								? error.message
-								: "Unknown error"
-						}`,
-					),
+				if (components && asset) components[asset.option] = false;
+			}
+			if (excluded.has("user-themes")) {
+				// the themes are no longer bundled with the profile
+				const manifest = await readSpiceManifest(profile.zipFile);
+				if (manifest) {
+					for (const spice of manifest.spices) {
+						if (spice.type === "themes") spice.bundled = false;
+					}
+					await Deno.writeTextFile(
+						join(tempDir, SPICE_MANIFEST_FILE),
+						JSON.stringify(manifest, null, 2),
+					);
+				}
+			}
+
+			const profileMeta = {
+				appName: PROGRAM_NAME,
+				appVersion: VERSION,
+				profileName: profile.name,
+				exportedAt: new Date().toISOString(),
+				originalCreatedAt: profile.createdAt,
+				updatedAt: profile.updatedAt,
+				description:
+					`Exported Cinnamon desktop profile: ${profile.name}`,
+				profileDescription: profile.description,
+				tags: profile.tags,
+				components,
+				cinnamonVersion: profile.cinnamonVersion,
+				dconfKeyFilters: profile.dconfKeyFilters,
+			};
+			await Deno.writeTextFile(
+				join(tempDir, EXPORT_METADATA_FILE),
+				JSON.stringify(profileMeta, null, 2),
+			);
+			const config = await readConfig();
+			const redact = options.redact ?? config.redactOnExport;
+			const findings = await scanSpiceSecrets(
+				tempDir,
+				[...BUILTIN_REDACTION_RULES, ...config.redactionRules],
+				redact,
+			);
+			setJsonResult({ secrets: findings });
+			if (findings.length > 0) {
+				console.log(chalk.yellow("Settings that may contain secrets:"));
+				const table = new Table()
+					.header(["Setting", "File", "Reason", "Exported"])
+					.body(
+						findings.map((finding) => [
+							finding.setting,
+							finding.file,
+							finding.reason,
+							finding.redacted
+								? chalk.green("redacted")
+								: chalk.red("as is"),
+						]),
+					)
+					.padding(2)
+					.border(true);
+				console.log(table.toString());
+				const kept = findings.filter((finding) => !finding.redacted);
+				if (
+					kept.length > 0 &&
+					!confirmAction(
+						chalk.yellow(
+							`${kept.length} of them will be exported as they are. Continue?`,
+						),
+					)
+				) {
+					console.log(chalk.gray("Export cancelled."));
+					Deno.exit(0);
+				}
+			}
+
+			await templateHomePaths(tempDir);
+			await writeArchiveManifest(tempDir, components);
+
+			console.log(
+				chalk.gray(
+					toStdout
+						? "Creating export archive..."
+						: `Creating export archive at ${exportPath}...`,
+				),
+			);
+			if (!(await zipDirectoryContents(tempDir, exportPath))) {
+				console.error(chalk.red("Failed to create export archive."));
+				return false;
+			}
+			if (toStdout) {
+				// the store is no longer read, so `export -o - | import - --wait` can proceed
+				releaseLock();
+				const archive = await Deno.open(exportPath, { read: true });
+				await archive.readable.pipeTo(Deno.stdout.writable, {
+					preventClose: true,
+				});
+				console.log(
+					chalk.green("Profile exported successfully to stdout"),
 				);
+				return true;
 			}
-		} else {
+			setJsonResult({ profile: name, exportPath });
 			console.log(
-				chalk.gray("No system fonts found in backup, skipping."),
+				chalk.green(`Profile exported successfully to ${exportPath}`),
 			);
+			return true;
+		},
+	);
+	if (toStdout) {
+		await Deno.remove(exportPath).catch(() => {});
+	}
+	if (!success) {
+		Deno.exit(1);
+	}
+}
+
+/**
+ * Lists the entries of an archive or snapshot without extracting anything.
+ */
+async function listArchiveEntries(
+	archivePath: string,
+): Promise<ArchiveEntry[]> {
+	if (isSnapshotFile(archivePath)) {
+		return (await readSnapshotManifest(archivePath)).entries.map((
+			entry,
+		) => ({
+			path: entry.path,
+			type: entry.type,
+			size: entry.size ?? 0,
+			mode: entry.mode ?? null,
+			target: entry.target,
+		}));
+	}
+
+	const entries: ArchiveEntry[] = [];
+	const file = await Deno.open(archivePath, { read: true });
+	try {
+		for (const entry of await readZipEntries(archivePath)) {
+			let target: string | undefined;
+			if (entry.isSymlink && !entry.isDirectory) {
+				if (entry.size > 4096) {
+					throw new ArchiveError(
+						"UNSAFE_PATH",
+						"Symlink target is too long.",
+						archivePath,
+						entry.name,
+					);
+				}
+				target = new TextDecoder().decode(
+					await new Response(
+						await openZipEntryStream(file, archivePath, entry),
+					).arrayBuffer(),
+				);
+			}
+			entries.push({
+				path: entry.name,
+				type: entry.isDirectory
+					? "dir"
+					: entry.isSymlink
+					? "symlink"
+					: entry.isSpecial
+					? "special"
+					: "file",
+				size: entry.size,
+				mode: entry.mode,
+				target,
+			});
 		}
-	} else {
-		console.log(
-			chalk.gray("Skipping system fonts restoration (not enabled)."),
-		);
+	} finally {
+		file.close();
 	}
+	return entries;
 }
 
 /**
- * Restores theme, icon, and font directories to both user and system locations
+ * Returns the dconf key filters from an imported archive's metadata if they are
+ * lists of strings, or null if they have any other shape.
  */
-async function restoreThemeIconAndFontDirectories(
-	tempDir: string,
-	options: ComponentOptions,
-): Promise<void> {
-	await restoreThemeDirectories(tempDir, options);
-	await restoreIconDirectories(tempDir, options);
-	await restoreFontDirectories(tempDir, options);
+function parseImportedKeyFilters(
+	value: unknown,
+): Partial<DconfKeyFilters> | null {
+	if (!isPlainObject(value)) return null;
+	const filters: Partial<DconfKeyFilters> = {};
+	for (const list of ["include", "exclude"] as const) {
+		const patterns = value[list];
+		if (patterns === undefined) continue;
+		if (
+			!Array.isArray(patterns) ||
+			!patterns.every((pattern) => typeof pattern === "string")
+		) {
+			return null;
+		}
+		filters[list] = patterns;
+	}
+	return filters;
 }
 
-// ...existing code...
+/**
+ * Returns the component flags from an imported archive's metadata if every flag
+ * is a boolean and the dconf roots and key filters are valid, or null otherwise.
+ * Unknown fields are dropped.
+ */
+function parseImportedComponents(value: unknown): ComponentOptions | null {
+	if (
+		!isPlainObject(value) ||
+		!COMPONENT_FLAGS.every((flag) => typeof value[flag] === "boolean")
+	) {
+		return null;
+	}
+	const components = Object.fromEntries(
+		COMPONENT_FLAGS.map((flag) => [flag, value[flag]]),
+	) as unknown as ComponentOptions;
+	if (value.dconfRoots !== undefined) {
+		const roots = Array.isArray(value.dconfRoots)
+			? value.dconfRoots.map((root) =>
+				typeof root === "string" ? normalizeDconfRoot(root) : null
+			)
+			: [null];
+		if (roots.some((root) => root === null)) return null;
+		components.dconfRoots = roots as string[];
+	}
+	if (value.dconfKeyFilters !== undefined) {
+		const filters = parseImportedKeyFilters(value.dconfKeyFilters);
+		if (!filters) return null;
+		components.dconfKeyFilters = {
+			include: filters.include ?? [],
+			exclude: filters.exclude ?? [],
+		};
+	}
+	return components;
+}
 
 /**
- * Restores Cinnamon settings from a given profile or backup zip file.
+ * Rejects archives that could write outside the places a profile restores to:
+ * unknown top-level entries, symlinks leaving their component directory, paths
+ * through symlinks, device files, setuid files and oversized contents.
  */
-async function restoreSettingsFromZip(
-	zipFilePath: string,
-	isProfileSwitch: boolean = false,
-	options?: ComponentOptions,
-	skipBackup: boolean = false,
-): Promise<boolean> {
-	const componentOptions: ComponentOptions = options || {
-		userThemes: true,
-		systemThemes: true,
-		userIcons: true,
-		userIconsAlt: true,
-		systemIcons: true,
-		userFonts: true,
-		userFontsAlt: true,
-		systemFonts: true,
-		dconf: true,
+function validateImportEntries(
+	entries: ArchiveEntry[],
+	archivePath: string,
+): void {
+	const fail = (entry: ArchiveEntry, message: string): never => {
+		throw new ArchiveError("UNSAFE_PATH", message, archivePath, entry.path);
 	};
-
-	if (!(await exists(zipFilePath))) {
-		console.error(
-			chalk.red(`Error: Archive file not found: ${zipFilePath}`),
+	if (entries.length > IMPORT_LIMITS.MAX_ENTRIES) {
+		throw new ArchiveError(
+			"TOO_LARGE",
+			`The archive has ${entries.length} entries; at most ${IMPORT_LIMITS.MAX_ENTRIES} are allowed.`,
+			archivePath,
 		);
-		return false;
 	}
 
-	return await withTempDir(
-		{ prefix: "cinnamon-restore-" },
-		async (tempDir) => {
-			console.log(
-				chalk.gray(
-					`Extracting archive ${
-						basename(
-							zipFilePath,
-						)
-					} to temporary directory...`,
-				),
-			);
-			if (!(await unzipArchive(zipFilePath, tempDir))) {
-				return false;
-			}
+	const symlinks: string[] = [];
+	let totalSize = 0;
+	for (const entry of entries) {
+		const path = safeEntryPath(entry.path, archivePath);
+		if (path === "") continue;
+		const [topLevel, ...rest] = path.split("/");
+		const isKnownDir = IMPORT_TOP_LEVEL_DIRS.includes(topLevel);
+		const isKnownFile = rest.length === 0 &&
+			(IMPORT_TOP_LEVEL_FILES.includes(topLevel) ||
+				dconfRootFromFileName(topLevel) !== null);
+		if (!isKnownDir && !isKnownFile) {
+			fail(entry, "Not part of a Cinnamon profile.");
+		}
+		if (entry.type === "special") {
+			fail(entry, "Device files, FIFOs and sockets are not allowed.");
+		}
+		if (entry.mode !== null && (entry.mode & 0o6000) !== 0) {
+			fail(entry, "Setuid and setgid files are not allowed.");
+		}
+		if (symlinks.some((link) => path.startsWith(`${link}/`))) {
+			fail(entry, "Entry path goes through a symlink.");
+		}
 
-			if (!isProfileSwitch && !skipBackup) {
-				console.log(
-					chalk.gray(
-						`Creating automatic pre-restore backup of current settings...`,
-					),
-				);
-				const autoBackupFile = await createTimestampedBackup(
-					APP_PATHS.AUTO_BACKUP_DIR,
-					"pre-restore",
-					componentOptions,
+		if (entry.type === "symlink") {
+			// the target has to stay inside the component directory, e.g. within user-icons/
+			if (!isKnownDir || rest.length === 0) {
+				fail(
+					entry,
+					"Symlinks are only allowed inside component directories.",
 				);
-				if (autoBackupFile) {
-					console.log(
-						chalk.gray(
-							`Automatic backup created at ${autoBackupFile}`,
-						),
-					);
-				} else {
-					console.warn(
-						chalk.yellow(
-							"Warning: Automatic pre-restore backup creation may have failed. Continuing with restore...",
-						),
-					);
-				}
-			} else if (!isProfileSwitch && skipBackup) {
-				console.log(
-					chalk.gray(
-						"Skipping automatic pre-restore backup (disabled by --no-backup option).",
-					),
+			}
+			checkSymlinkTarget(
+				path,
+				entry.target ?? "",
+				archivePath,
+				entry.path,
+			);
+			symlinks.push(path);
+		} else if (entry.type === "file") {
+			if (entry.size > IMPORT_LIMITS.MAX_FILE_SIZE) {
+				throw new ArchiveError(
+					"TOO_LARGE",
+					`File is ${formatSize(entry.size)}; at most ${
+						formatSize(IMPORT_LIMITS.MAX_FILE_SIZE)
+					} is allowed per file.`,
+					archivePath,
+					entry.path,
 				);
 			}
+			totalSize += entry.size;
+		}
+	}
+	if (totalSize > IMPORT_LIMITS.MAX_TOTAL_SIZE) {
+		throw new ArchiveError(
+			"TOO_LARGE",
+			`The archive unpacks to ${formatSize(totalSize)}; at most ${
+				formatSize(IMPORT_LIMITS.MAX_TOTAL_SIZE)
+			} are allowed.`,
+			archivePath,
+		);
+	}
+}
 
-			console.log(
-				chalk.gray(`Removing existing Cinnamon file-based settings...`),
+/**
+ * Prints where the contents of an imported profile are written when it is applied.
+ * Returns the destinations outside the home directory.
+ */
+function printImportSummary(entries: ArchiveEntry[]): string[] {
+	const destinations = new Map<
+		string,
+		{ component: string; destination: string; files: number; size: number }
+	>();
+	for (const entry of entries) {
+		if (entry.type === "dir") continue;
+		const path = entry.path.replace(/\\/g, "/").replace(/^\.?\//, "");
+		const [topLevel, ...rest] = path.split("/");
+		const root = rest.length === 0 ? dconfRootFromFileName(topLevel) : null;
+		const component = rest.length > 0 ? topLevel : root ? "dconf" : null;
+		if (!component) continue; // profile metadata
+		const destination = component === "share"
+			? CINNAMON_PATHS.SHARE_DIR_ABSOLUTE
+			: component === "config"
+			? CINNAMON_PATHS.CONFIG_DIR_ABSOLUTE
+			: component === "dconf"
+			? root! // each dump replaces everything under its root
+			: ASSET_COMPONENT_DIRS.find((c) => c.archiveDir === component)!
+				.livePath;
+		const key = component === "dconf" ? `dconf ${root}` : component;
+		const summary = destinations.get(key) ??
+			{ component, destination, files: 0, size: 0 };
+		summary.files++;
+		summary.size += entry.size;
+		destinations.set(key, summary);
+	}
+
+	console.log(chalk.cyan("This profile writes the following when applied:"));
+	const table = new Table()
+		.header(["Component", "Destination", "Files", "Size"])
+		.body(
+			[...destinations.values()]
+				.sort((a, b) =>
+					a.component.localeCompare(b.component) ||
+					a.destination.localeCompare(b.destination)
+				)
+				.map((summary) => [
+					summary.component,
+					summary.destination,
+					String(summary.files),
+					formatSize(summary.size),
+				]),
+		)
+		.padding(2)
+		.border(true);
+	console.log(table.toString());
+
+	return [...destinations.values()]
+		.filter((summary) => summary.component !== "dconf")
+		.map((summary) => summary.destination)
+		.filter((destination) =>
+			destination.startsWith("/") &&
+			!destination.startsWith(`${ENV.HOME}/`)
+		);
+}
+
+/**
+ * Import a profile from an external zip file.
+ */
+async function importProfile(
+	filepath: string,
+	options: ImportOptions,
+): Promise<void> {
+	if (filepath === "-") {
+		if (Deno.stdin.isTerminal()) {
+			console.error(
+				chalk.red(
+					"Error: Pipe a profile archive into stdin to import it with -.",
+				),
 			);
-			if (await exists(CINNAMON_PATHS.SHARE_DIR_ABSOLUTE)) {
-				await emptyDir(CINNAMON_PATHS.SHARE_DIR_ABSOLUTE);
-			}
-			if (await exists(CINNAMON_PATHS.CONFIG_DIR_ABSOLUTE)) {
-				await emptyDir(CINNAMON_PATHS.CONFIG_DIR_ABSOLUTE);
-			}
-			// ensure dirs exist after emptying, as emptyDir might remove them if they were empty before.
-			await Deno.mkdir(CINNAMON_PATHS.SHARE_DIR_ABSOLUTE, {
-				recursive: true,
-			});
-			await Deno.mkdir(CINNAMON_PATHS.CONFIG_DIR_ABSOLUTE, {
-				recursive: true,
+			Deno.exit(1);
+		}
+		await withTempDir({ prefix: "cinnamon-import-stdin-" }, async (dir) => {
+			console.log(chalk.gray("Reading profile archive from stdin..."));
+			const stdinFile = join(dir, `imported-${Date.now()}.zip`);
+			const file = await Deno.open(stdinFile, {
+				write: true,
+				createNew: true,
 			});
+			await Deno.stdin.readable.pipeTo(file.writable);
+			await acquireLock(Deno.args.includes("--wait"));
+			await migrateZipArchivesToStore();
+			await recoverInterruptedRestore();
+			await importProfile(stdinFile, options);
+		});
+		return;
+	}
 
-			console.log(chalk.gray(`Restoring file-based settings...`));
-			const tempShareDir = join(tempDir, "share");
-			const tempConfigDir = join(tempDir, "config");
+	console.log(chalk.yellow(`Importing profile from: ${filepath}`));
+	if (!(await exists(filepath))) {
+		console.error(chalk.red(`Error: File not found: ${filepath}`));
+		Deno.exit(1);
+	}
 
-			if (await exists(tempShareDir)) {
-				await copyDirectoryContents(
-					tempShareDir,
-					CINNAMON_PATHS.SHARE_DIR_ABSOLUTE,
-				);
-			} else {
-				console.warn(
-					chalk.yellow(
-						"Warning: No 'share' directory found in the archive.",
-					),
-				);
-			}
-			if (await exists(tempConfigDir)) {
-				await copyDirectoryContents(
-					tempConfigDir,
-					CINNAMON_PATHS.CONFIG_DIR_ABSOLUTE,
-				);
-			} else {
-				console.warn(
-					chalk.yellow(
-						"Warning: No 'config' directory found in the archive.",
-					),
-				);
-			}
+	let entries: ArchiveEntry[];
+	try {
+		entries = await listArchiveEntries(filepath);
+		validateImportEntries(entries, filepath);
+	} catch (e) {
+		console.error(
+			chalk.red(`Error: Refusing to import ${basename(filepath)}.`),
+		);
+		console.error(chalk.gray(describeArchiveError(e)));
+		Deno.exit(1);
+	}
+	const outsideHome = printImportSummary(entries);
+	if (
+		outsideHome.length > 0 &&
+		!confirmAction(
+			chalk.yellow(
+				`This profile contains files for ${
+					outsideHome.join(", ")
+				}, outside your home directory. They are only written when switching with the matching --add-system-* option. Import it anyway?`,
+			),
+		)
+	) {
+		console.log(chalk.gray("Import cancelled."));
+		Deno.exit(0);
+	}
 
-			// restore themes, icons, and fonts
-			await restoreThemeIconAndFontDirectories(tempDir, componentOptions);
+	await withTempDir({ prefix: "cinnamon-import-" }, async (tempDir) => {
+		let profileName = basename(filepath, ".zip")
+			.replace(/^cinnamon-profile-/i, "")
+			.replace(
+				/-export-\d{4}-\d{2}-\d{2}T\d{2}-\d{2}-\d{2}-\d{3}Z$/i,
+				"",
+			)
+			.replace(/[^a-zA-Z0-9-_]/g, "_") || `imported-${Date.now()}`;
 
-			// restore dconf settings
-			if (componentOptions.dconf) {
-				const dconfSettingsPath = join(tempDir, DCONF_SETTINGS_FILE);
-				if (await exists(dconfSettingsPath)) {
+		let metadataContent: Uint8Array | null = null;
+		let importedMeta: Partial<Profile> = {};
+		try {
+			metadataContent = await readArchiveEntry(
+				filepath,
+				EXPORT_METADATA_FILE,
+			);
+		} catch (e) {
+			console.error(
+				chalk.red(`Error: Failed to read archive ${filepath}.`),
+			);
+			console.error(chalk.gray(describeArchiveError(e)));
+			Deno.exit(1);
+		}
+		if (metadataContent) {
+			try {
+				const metadata = JSON.parse(
+					new TextDecoder().decode(metadataContent),
+				);
+				if (
+					metadata.profileName &&
+					typeof metadata.profileName === "string"
+				) {
+					profileName = sanitizeProfileName(metadata.profileName);
 					console.log(
 						chalk.gray(
-							`Clearing existing dconf settings for /org/cinnamon/...`,
+							`Found metadata. Original profile name (sanitized): "${profileName}"`,
 						),
 					);
-
-					// reset/clear all existing Cinnamon dconf settings first
-					const dconfResetResult = await executeCommand("dconf", [
-						"reset",
-						"-f",
-						"/org/cinnamon/",
-					]);
-
-					if (dconfResetResult.success) {
-						console.log(
-							chalk.gray(
-								"Existing dconf settings cleared successfully.",
+				}
+				importedMeta = {
+					description: typeof metadata.profileDescription === "string"
+						? metadata.profileDescription
+						: undefined,
+					tags: Array.isArray(metadata.tags)
+						? normalizeTags(
+							metadata.tags.filter((t: unknown) =>
+								typeof t === "string"
 							),
-						);
-					} else {
+						)
+						: undefined,
+					createdAt: typeof metadata.originalCreatedAt === "string"
+						? metadata.originalCreatedAt
+						: undefined,
+					components: parseImportedComponents(metadata.components) ??
+						undefined,
+					cinnamonVersion:
+						typeof metadata.cinnamonVersion === "string"
+							? metadata.cinnamonVersion
+							: undefined,
+					dconfKeyFilters:
+						parseImportedKeyFilters(metadata.dconfKeyFilters) ??
+							undefined,
+				};
+				for (
+					const field of ["components", "dconfKeyFilters"] as const
+				) {
+					if (
+						metadata[field] !== undefined &&
+						metadata[field] !== null &&
+						importedMeta[field] === undefined
+					) {
 						console.warn(
 							chalk.yellow(
-								`Warning: Failed to clear existing dconf settings for /org/cinnamon/. Continuing with restore...`,
-							),
-						);
-						console.warn(
-							chalk.gray(
-								`dconf reset stderr: ${dconfResetResult.stderr}`,
+								`Warning: Ignoring invalid "${field}" in the archive's metadata.`,
 							),
 						);
 					}
+				}
+			} catch (e) {
+				console.warn(
+					chalk.yellow(
+						`Warning: Could not parse metadata file: ${
+							e instanceof Error ? e.message : "Unknown error"
+						}`,
+					),
+				);
+			}
+		}
+
+		const newNameInput = options.name !== undefined
+			? options.name
+			: canPrompt()
+			? prompt(
+				chalk.yellow(
+					`Enter name for this imported profile (default: "${profileName}"):`,
+				),
+				profileName,
+			)
+			: null;
+		if (newNameInput !== null && newNameInput.trim() !== "") {
+			profileName = sanitizeProfileName(newNameInput);
+		}
+		if (!profileName) {
+			// ensure profileName is not empty after sanitization or user input
+			profileName = `imported-profile-${Date.now()}`;
+			console.log(
+				chalk.yellow(
+					`Profile name was empty, using generated name: "${profileName}"`,
+				),
+			);
+		}
+
+		const profiles = await readProfiles();
+		let existingProfileIndex = profiles.findIndex(
+			(p) => p.name === profileName,
+		);
+
+		if (existingProfileIndex !== -1 && options.onConflict === "rename") {
+			const baseName = profileName;
+			for (let i = 2; profiles.some((p) => p.name === profileName); i++) {
+				profileName = `${baseName}-${i}`;
+			}
+			existingProfileIndex = -1;
+			console.log(
+				chalk.gray(
+					`A profile named "${baseName}" already exists. Importing as "${profileName}".`,
+				),
+			);
+		}
 
-					console.log(
-						chalk.gray(
-							`Restoring dconf settings for /org/cinnamon/ from ${
-								basename(
-									dconfSettingsPath,
-								)
-							}...`,
-						),
-					);
-					try {
-						const dconfSettingsContent = await Deno.readTextFile(
-							dconfSettingsPath,
-						);
-						if (dconfSettingsContent.trim() === "") {
-							console.log(
-								chalk.gray(
-									`dconf settings file ${
-										basename(
-											dconfSettingsPath,
-										)
-									} is empty. Skipping dconf load.`,
-								),
-							);
-						} else {
-							const dconfLoadResult = await executeCommand(
-								"dconf",
-								["load", "/org/cinnamon/"],
-								{
-									stdinContent: dconfSettingsContent,
-								},
-							);
-
-							if (dconfLoadResult.success) {
-								console.log(
-									chalk.gray(
-										"dconf settings for /org/cinnamon/ restored successfully.",
-									),
-								);
-							} else {
-								console.warn(
-									chalk.yellow(
-										`Warning: Failed to restore dconf settings for /org/cinnamon/.`,
-									),
-								);
-								console.warn(
-									chalk.gray(
-										`dconf stderr: ${dconfLoadResult.stderr}`,
-									),
-								);
-							}
-						}
-					} catch (e) {
-						console.warn(
-							chalk.yellow(
-								`Warning: Error reading dconf settings file ${
-									basename(
-										dconfSettingsPath,
-									)
-								}: ${
-									e instanceof Error ? e.message : String(e)
-								}. Skipping dconf restore.`,
-							),
-						);
-					}
-				} else {
-					console.log(
-						chalk.gray(
-							`No dconf settings file (${DCONF_SETTINGS_FILE}) found in archive. Skipping dconf restore.`,
+		let replacedProfile: Profile | null = null;
+		if (existingProfileIndex !== -1) {
+			const overwrite = options.onConflict === "overwrite" ||
+				(options.onConflict !== "abort" &&
+					confirmAction(
+						chalk.yellow(
+							`A profile named "${profileName}" already exists. Overwrite?`,
 						),
-					);
+					));
+			if (!overwrite) {
+				console.log(chalk.red("Import cancelled."));
+				Deno.exit(options.onConflict === "abort" ? 1 : 0);
+			}
+			// the old archive is only removed once the new one is stored
+			replacedProfile = profiles[existingProfileIndex];
+			profiles.splice(existingProfileIndex, 1);
+		}
+
+		console.log(chalk.gray("Extracting profile archive..."));
+		if (
+			!(await unzipArchive(filepath, tempDir)) ||
+			!(await checkStagedArchive(tempDir, filepath))
+		) {
+			Deno.exit(1);
+		}
+		await expandHomePaths(tempDir);
+		await writeArchiveManifest(tempDir, importedMeta.components ?? null);
+
+		// the tempDir now contains the extracted contents (share/, config/, dconf.ini, metadata.json etc.)
+		// we need to re-zip these into our internal profile format.
+		const newZipFile = join(
+			APP_PATHS.CUSTOM_PROFILES_ROOT_DIR,
+			`${profileName}-${crypto.randomUUID()}${SNAPSHOT_EXTENSION}`,
+		);
+		console.log(
+			chalk.gray(
+				`Creating internal profile archive ${basename(newZipFile)}...`,
+			),
+		);
+		if (!(await zipDirectoryContents(tempDir, newZipFile))) {
+			console.error(
+				chalk.red(
+					"Failed to create internal profile archive from imported data.",
+				),
+			);
+			Deno.exit(1);
+		}
+
+		const now = new Date().toISOString();
+		profiles.push(normalizeProfile({
+			...importedMeta,
+			name: profileName,
+			active: false, // imported profiles are not active by default
+			zipFile: newZipFile,
+			createdAt: importedMeta.createdAt ?? now,
+			updatedAt: now,
+			lastActivatedAt: null,
+		}));
+		await writeProfiles(profiles);
+		if (replacedProfile) {
+			try {
+				if (await exists(replacedProfile.zipFile)) {
+					await Deno.remove(replacedProfile.zipFile);
 				}
-			} else {
-				console.log(
-					chalk.gray(
-						"Skipping dconf settings restoration (disabled by option).",
+			} catch (e) {
+				console.warn(
+					chalk.yellow(
+						`Could not delete old zip ${
+							basename(
+								replacedProfile.zipFile,
+							)
+						}: ${e instanceof Error ? e.message : "Unknown error"}`,
 					),
 				);
 			}
+		}
+		await collectGarbageAndReport(); // files only an overwritten profile used
+		setJsonResult({ profile: profileName, zipFile: newZipFile });
 
-			return true;
-		},
-	);
+		console.log(
+			chalk.green(`Profile "${profileName}" imported successfully.`),
+		);
+		console.log(
+			chalk.gray(
+				`Use '${PROGRAM_NAME} switch "${profileName}"' to activate this profile.`,
+			),
+		);
+	});
 }
 
 /**
- * Restore settings from a user-selected backup.
+ * Works out what to capture when re-capturing a profile: the components chosen
+ * on the command line and the dconf roots and key filters the profile was made with.
  */
-async function restoreBackupCmd(options: CommandOptions): Promise<void> {
+async function resolveUpdateOptions(
+	profile: Profile,
+	options: CommandOptions,
+): Promise<ComponentOptions> {
 	const componentOptions: ComponentOptions = {
 		userThemes: options.userThemes !== false,
 		systemThemes: options.addSystemThemes === true,
@@ -1541,331 +7536,179 @@ async function restoreBackupCmd(options: CommandOptions): Promise<void> {
 		userFontsAlt: options.userFontsHome !== false,
 		systemFonts: options.addSystemFonts === true,
 		dconf: options.dconf !== false,
+		dconfRoots: parseDconfPathOption(options.dconfPath),
 	};
 
-	const backupFilePath = await selectBackupFile();
-	if (!backupFilePath) {
-		Deno.exit(0);
-	}
-	console.log(
-		chalk.yellow(
-			`Restoring settings from backup: ${basename(backupFilePath)}`,
-		),
-	);
-
-	const success = await restoreSettingsFromZip(
-		backupFilePath,
-		false,
-		componentOptions,
-		options.noBackup,
+	// keep capturing the dconf roots the profile was made with
+	componentOptions.dconfRoots = await captureDconfRoots({
+		...componentOptions,
+		dconfRoots: componentOptions.dconfRoots ??
+			profile.components?.dconfRoots,
+	});
+	componentOptions.dconfKeyFilters = await resolveDconfKeyFilters(
+		profile.dconfKeyFilters,
 	);
 
-	if (success) {
-		console.log(chalk.green("Settings restored successfully from backup."));
-		console.log(
-			chalk.gray(
-				"You may need to restart Cinnamon or log out/in for all changes to take effect.",
-			),
-		);
-	} else {
-		console.error(chalk.red("Failed to restore settings from backup."));
-		Deno.exit(1);
-	}
+	return componentOptions;
 }
 
 /**
- * Select a backup file to restore. Returns full path or null.
+ * Replaces a profile's archive with the current settings and records the update.
+ * With `skipUnchanged`, nothing is written if the settings match the archive.
  */
-async function selectBackupFile(): Promise<string | null> {
-	if (
-		!(await exists(APP_PATHS.BACKUP_DIR)) &&
-		!(await exists(APP_PATHS.AUTO_BACKUP_DIR))
-	) {
-		console.log(
-			chalk.yellow("No backup directories found. Nothing to restore."),
-		);
-		return null;
-	}
+async function recaptureProfile(
+	profiles: Profile[],
+	profile: Profile,
+	componentOptions: ComponentOptions,
+	skipUnchanged: boolean = false,
+): Promise<boolean | "unchanged"> {
+	return await withTempDir(
+		{ prefix: "cinnamon-profile-update-" },
+		async (tempDir) => {
+			const tempShareDir = join(tempDir, "share");
+			const tempConfigDir = join(tempDir, "config");
+
+			console.log(
+				chalk.gray("Copying current Cinnamon file-based settings..."),
+			);
+			await copyDirectoryContents(
+				CINNAMON_PATHS.SHARE_DIR_ABSOLUTE,
+				tempShareDir,
+			);
+			await copyDirectoryContents(
+				CINNAMON_PATHS.CONFIG_DIR_ABSOLUTE,
+				tempConfigDir,
+			);
+
+			// copy themes, icons, and fonts for update
+			await copyThemeIconAndFontDirectories(tempDir, componentOptions);
 
-	const filesWithDates: {
-		filename: string;
-		date: Date | null;
-		fullPath: string;
-		type: string;
-	}[] = [];
-
-	// process manual backups
-	if (await exists(APP_PATHS.BACKUP_DIR)) {
-		for await (const dirEntry of Deno.readDir(APP_PATHS.BACKUP_DIR)) {
-			if (dirEntry.isFile && dirEntry.name.endsWith(".zip")) {
-				let date: Date | null = null;
-				const dateMatch = dirEntry.name.match(
-					/(\d{4}-\d{2}-\d{2}T\d{2}-\d{2}-\d{2}-\d{3}Z)\.zip$/,
+			// dump dconf settings
+			if (componentOptions.dconf) {
+				await dumpDconfSettings(
+					tempDir,
+					await captureDconfRoots(componentOptions),
+					componentOptions.dconfKeyFilters,
+				);
+			} else {
+				console.log(
+					chalk.gray(
+						"Skipping dconf settings update (disabled by option).",
+					),
 				);
-				if (dateMatch) {
-					const datePart = dateMatch[1];
-					const isoStr = datePart.substring(0, 13) +
-						":" +
-						datePart.substring(14, 16) +
-						":" +
-						datePart.substring(17, 19) +
-						"." +
-						datePart.substring(20, 23) +
-						"Z";
-					try {
-						date = new Date(isoStr);
-						if (isNaN(date.getTime())) {
-							console.log(
-								chalk.gray(
-									`Could not parse date from: ${dirEntry.name}, produced: ${isoStr}`,
-								),
-							);
-							date = null;
-						}
-					} catch (e) {
-						console.log(
-							chalk.gray(
-								`Error parsing date: ${
-									e instanceof Error ? e.message : "Unknown"
-								}`,
-							),
-						);
-					}
-				}
-				filesWithDates.push({
-					filename: dirEntry.name,
-					date,
-					fullPath: join(APP_PATHS.BACKUP_DIR, dirEntry.name),
-					type: "Manual",
-				});
 			}
-		}
-	}
+			await writeSpiceManifest(tempDir);
+			await writeArchiveManifest(tempDir, componentOptions);
+
+			if (
+				skipUnchanged &&
+				await isUnchangedSince(tempDir, profile.zipFile)
+			) {
+				return "unchanged";
+			}
 
-	// process auto backups
-	if (await exists(APP_PATHS.AUTO_BACKUP_DIR)) {
-		for await (const dirEntry of Deno.readDir(APP_PATHS.AUTO_BACKUP_DIR)) {
-			if (dirEntry.isFile && dirEntry.name.endsWith(".zip")) {
-				let date: Date | null = null;
-				const dateMatch = dirEntry.name.match(
-					/(\d{4}-\d{2}-\d{2}T\d{2}-\d{2}-\d{2}-\d{3}Z)\.zip$/,
+			// written to a temporary file and renamed over the old archive, which stays intact on failure
+			console.log(chalk.gray(`Creating updated profile archive...`));
+			if (!(await zipDirectoryContents(tempDir, profile.zipFile))) {
+				console.error(
+					chalk.red(
+						`Failed to write the updated archive. The previous version of "${profile.name}" was kept.`,
+					),
 				);
-				if (dateMatch) {
-					const datePart = dateMatch[1];
-					const isoStr = datePart.substring(0, 13) +
-						":" +
-						datePart.substring(14, 16) +
-						":" +
-						datePart.substring(17, 19) +
-						"." +
-						datePart.substring(20, 23) +
-						"Z";
-					try {
-						date = new Date(isoStr);
-						if (isNaN(date.getTime())) {
-							console.log(
-								chalk.gray(
-									`Could not parse date from: ${dirEntry.name}, produced: ${isoStr}`,
-								),
-							);
-							date = null;
-						}
-					} catch (e) {
-						console.log(
-							chalk.gray(
-								`Error parsing date: ${
-									e instanceof Error ? e.message : "Unknown"
-								}`,
-							),
-						);
-					}
-				}
-				filesWithDates.push({
-					filename: dirEntry.name,
-					date,
-					fullPath: join(APP_PATHS.AUTO_BACKUP_DIR, dirEntry.name),
-					type: "Auto",
-				});
+				return false;
 			}
-		}
-	}
-
-	if (filesWithDates.length === 0) {
-		console.log(
-			chalk.yellow("No backup files found in the backup directories."),
-		);
-		return null;
-	}
-
-	filesWithDates.sort((a, b) => {
-		if (!a.date && !b.date) return a.filename.localeCompare(b.filename); // fallback sort by name
-		if (!a.date) return 1;
-		if (!b.date) return -1;
-		return b.date.getTime() - a.date.getTime(); // newest first
-	});
 
-	console.log(
-		chalk.yellow("Available backup files (both manual and automatic):"),
-	);
-	const table = new Table()
-		.header(["#", "Backup File", "Date", "Type"])
-		.padding(2)
-		.border(true);
-	filesWithDates.forEach(({ filename, date, type }, index) => {
-		table.push([
-			`${index + 1}`,
-			filename,
-			date ? date.toLocaleString() : "Unknown",
-			type,
-		]);
-	});
-	console.log(table.toString());
+			profile.updatedAt = new Date().toISOString();
+			profile.components = componentOptions;
+			profile.cinnamonVersion = await getCinnamonVersion();
+			await writeProfiles(profiles);
+			await collectGarbageAndReport(); // files only the old version used
 
-	const input = prompt(
-		chalk.yellow(
-			"Enter the number of the backup to restore (or 0 to cancel):",
-		),
+			return true;
+		},
 	);
-	if (input === null) {
-		console.log(chalk.gray("Restore cancelled by user."));
-		return null;
-	}
-	const selection = parseInt(input);
-
-	if (
-		isNaN(selection) ||
-		selection < 0 ||
-		selection > filesWithDates.length
-	) {
-		console.error(
-			chalk.red(
-				`Error: Invalid selection. Please enter a number between 0 and ${filesWithDates.length}.`,
-			),
-		);
-		return null;
-	}
-	if (selection === 0) {
-		console.log(chalk.gray("Restore cancelled."));
-		return null;
-	}
-	return filesWithDates[selection - 1].fullPath;
 }
 
 /**
- * Switch to a different profile
+ * Updates the currently active profile with current Cinnamon settings
  */
-async function switchProfile(
-	name: string,
-	options: CommandOptions,
-): Promise<void> {
+async function updateActiveProfile(options: CommandOptions): Promise<void> {
+	console.log(
+		chalk.yellow("Updating active profile with current settings..."),
+	);
 	const profiles = await readProfiles();
-	const profileToActivate = profiles.find((p) => p.name === name);
-
-	if (!profileToActivate) {
-		console.error(chalk.red(`Error: Profile "${name}" not found.`));
-		Deno.exit(1);
-	}
 
-	// ask for confirmation before switching, as it will override current settings
-	const confirmMessage = profileToActivate.active
-		? chalk.yellow(
-			`Profile "${name}" is already active. Re-applying it will reset any unsaved changes. Continue?`,
-		)
-		: chalk.yellow(
-			`Switching to profile "${name}" will override your current settings. Continue?`,
+	const activeProfile = profiles.find((p) => p.active);
+	if (!activeProfile) {
+		console.error(
+			chalk.red(
+				"Error: No active profile found. Create or switch to a profile first.",
+			),
 		);
+		Deno.exit(1);
+	}
 
-	const proceed = confirm(confirmMessage);
-	if (!proceed) {
-		console.log(chalk.gray("Profile switch cancelled by user."));
+	console.log(chalk.gray(`Found active profile: ${activeProfile.name}`));
+	const componentOptions = await resolveUpdateOptions(activeProfile, options);
+
+	const confirmed = confirmAction(
+		chalk.yellow(
+			`This will update "${activeProfile.name}" with your current settings. Continue?`,
+		),
+	);
+	if (!confirmed) {
+		console.log(chalk.gray("Update cancelled."));
 		Deno.exit(0);
 	}
-	console.log(chalk.yellow(`Switching to profile: ${name}`));
 
-	const componentOptions: ComponentOptions = {
-		userThemes: options.userThemes !== false,
-		systemThemes: options.addSystemThemes === true,
-		userIcons: options.userIconsLocal !== false,
-		userIconsAlt: options.userIconsHome !== false,
-		systemIcons: options.addSystemIcons === true,
-		userFonts: options.userFontsLocal !== false,
-		userFontsAlt: options.userFontsHome !== false,
-		systemFonts: options.addSystemFonts === true,
-		dconf: options.dconf !== false,
-	};
+	// create backup before updating
+	console.log(chalk.gray("Creating backup before updating profile..."));
+	const backupFile = await createTimestampedBackup(
+		APP_PATHS.AUTO_BACKUP_DIR,
+		`pre-update-${activeProfile.name.replace(/[^a-zA-Z0-9-_]/g, "_")}`,
+		componentOptions,
+	);
 
-	let autoBackupFile: string | null = null;
-	if (!options.noBackup) {
-		console.log(
-			chalk.gray(
-				`Creating backup of current settings before switching...`,
+	if (backupFile) {
+		console.log(chalk.gray(`Backup created at: ${basename(backupFile)}`));
+	} else {
+		const proceed = confirmAction(
+			chalk.redBright(
+				"Failed to create pre-update backup. Continue anyway? (Not Recommended)",
 			),
+			false,
 		);
-		autoBackupFile = await createTimestampedBackup(
-			APP_PATHS.AUTO_BACKUP_DIR,
-			`pre-switch-to-${name.replace(/[^a-zA-Z0-9-_]/g, "_")}`,
-			componentOptions,
-		);
-		if (autoBackupFile) {
-			console.log(
-				chalk.gray(
-					`Automatic backup created at ${basename(autoBackupFile)}`,
-				),
-			);
-		} else {
-			const proceed = confirm(
-				chalk.redBright(
-					"Automatic backup failed. Continue switching profile anyway? (Not Recommended)",
-				),
-			);
-			if (!proceed) {
-				console.log(chalk.red("Profile switch aborted by user."));
-				Deno.exit(0);
-			}
-			console.warn(
-				chalk.yellow(
-					"Proceeding with switch despite backup failure...",
-				),
-			);
+		if (!proceed) {
+			console.log(chalk.red("Update cancelled."));
+			Deno.exit(0);
 		}
-	} else {
-		console.log(
-			chalk.gray(
-				"Skipping automatic backup (disabled by --no-backup option).",
-			),
+		console.warn(
+			chalk.yellow("Proceeding with update despite backup failure..."),
 		);
 	}
 
-	const success = await restoreSettingsFromZip(
-		profileToActivate.zipFile,
-		true,
+	const success = await recaptureProfile(
+		profiles,
+		activeProfile,
 		componentOptions,
-		true, // skip backup since we handle it manually above
 	);
 
 	if (success) {
-		profiles.forEach((p) => (p.active = p.name === name));
-		profileToActivate.lastModified = new Date().toISOString(); // update lastModified on successful switch
-		await writeProfiles(profiles);
-		console.log(chalk.green(`Profile "${name}" switched successfully.`));
+		setJsonResult({ profile: activeProfile.name, backupFile });
 		console.log(
-			chalk.gray(
-				"You may need to restart Cinnamon or log out/in for all changes to take effect.",
+			chalk.green(
+				`Profile "${activeProfile.name}" updated successfully with current settings.`,
 			),
 		);
 	} else {
 		console.error(
-			chalk.red(
-				`Failed to switch to profile "${name}". Current settings might be in an inconsistent state.`,
-			),
+			chalk.red(`Failed to update profile "${activeProfile.name}".`),
 		);
 		console.error(
 			chalk.yellow(
-				`An automatic backup was attempted: ${
-					autoBackupFile
-						? basename(autoBackupFile)
-						: "Not created or failed"
-				}. You might need to restore it manually.`,
+				`A backup was attempted before the update: ${
+					backupFile ? basename(backupFile) : "Failed"
+				}`,
 			),
 		);
 		Deno.exit(1);
@@ -1873,359 +7716,616 @@ async function switchProfile(
 }
 
 /**
- * Delete an existing profile
+ * Checks the `autoRules` of the config for mistakes that would make them
+ * never (or always) match. Returns one message per problem.
  */
-async function deleteProfile(name: string): Promise<void> {
-	console.log(chalk.yellow(`Deleting profile: ${name}`));
-	const profiles = await readProfiles();
-	const profileIndex = profiles.findIndex((p) => p.name === name);
+function validateAutoRules(rules: AutoRule[], profiles: Profile[]): string[] {
+	const problems: string[] = [];
+	rules.forEach((rule, index) => {
+		if (!isPlainObject(rule)) {
+			problems.push(`Rule #${index + 1}: is not an object`);
+			return;
+		}
+		const label = autoRuleLabel(rule, index);
+		const invalid = (field: string, expected: string) =>
+			problems.push(`${label}: "${field}" must be ${expected}`);
+		for (
+			const field of [
+				"name",
+				"hostname",
+				"time",
+				"fileExists",
+				"command",
+				"output",
+			] as const
+		) {
+			if (rule[field] !== undefined && typeof rule[field] !== "string") {
+				invalid(field, "a string");
+			}
+		}
+		if (
+			rule.priority !== undefined &&
+			(typeof rule.priority !== "number" ||
+				!Number.isFinite(rule.priority))
+		) {
+			invalid("priority", "a number");
+		}
+		if (
+			rule.weekdays !== undefined &&
+			(!Array.isArray(rule.weekdays) ||
+				!rule.weekdays.every((day) => typeof day === "string"))
+		) {
+			invalid("weekdays", "a list of day names");
+		}
+		if (
+			rule.env !== undefined &&
+			(!isPlainObject(rule.env) ||
+				!Object.values(rule.env).every((value) =>
+					typeof value === "string"
+				))
+		) {
+			invalid("env", "an object of variable names and value globs");
+		}
+		if (problems.some((problem) => problem.startsWith(`${label}:`))) {
+			return; // the checks below rely on the types
+		}
+		for (const variable of Object.keys(rule.env ?? {})) {
+			if (
+				Deno.permissions.querySync({ name: "env", variable }).state !==
+					"granted"
+			) {
+				problems.push(
+					`${label}: cannot read $${variable}, only ${
+						AUTO_RULE_ENV_VARIABLES.join(" and ")
+					} variables can be used`,
+				);
+			}
+		}
+		for (
+			const pattern of [
+				rule.hostname,
+				rule.output,
+				...Object.values(rule.env ?? {}),
+			]
+		) {
+			try {
+				if (pattern !== undefined) globToRegExp(pattern);
+			} catch (_e) {
+				problems.push(`${label}: invalid pattern "${pattern}"`);
+			}
+		}
+		if (typeof rule.profile !== "string" || !rule.profile) {
+			problems.push(`${label}: "profile" is missing`);
+		} else if (!profiles.some((p) => p.name === rule.profile)) {
+			problems.push(`${label}: profile "${rule.profile}" does not exist`);
+		}
+		if (rule.time !== undefined && !parseTimeWindow(rule.time)) {
+			problems.push(
+				`${label}: "time" must look like "08:00-18:00", got "${rule.time}"`,
+			);
+		}
+		for (const day of rule.weekdays ?? []) {
+			if (!WEEKDAYS.includes(day.toLowerCase().substring(0, 3))) {
+				problems.push(`${label}: unknown weekday "${day}"`);
+			}
+		}
+		if (rule.output !== undefined && rule.command === undefined) {
+			problems.push(`${label}: "output" needs a "command"`);
+		}
+	});
+	return problems;
+}
 
-	if (profileIndex === -1) {
-		console.error(chalk.red(`Error: Profile "${name}" not found.`));
-		Deno.exit(1);
+/**
+ * Names a rule in messages: its name, or its position in the config.
+ */
+function autoRuleLabel(rule: AutoRule, index: number): string {
+	return rule.name ? `Rule "${rule.name}"` : `Rule #${index + 1}`;
+}
+
+/**
+ * Parses a "HH:MM-HH:MM" window into minutes since midnight.
+ */
+function parseTimeWindow(
+	window: string,
+): { start: number; end: number } | null {
+	const match = window.match(/^(\d{1,2}):(\d{2})\s*-\s*(\d{1,2}):(\d{2})$/);
+	if (!match) return null;
+	const [startHour, startMinute, endHour, endMinute] = match.slice(1).map(
+		Number,
+	);
+	const isValid = (hour: number, minute: number) =>
+		minute <= 59 && (hour < 24 || (hour === 24 && minute === 0)); // 24:00 is the end of the day
+	if (!isValid(startHour, startMinute) || !isValid(endHour, endMinute)) {
+		return null;
 	}
+	return {
+		start: startHour * 60 + startMinute,
+		end: endHour * 60 + endMinute,
+	};
+}
 
-	const profileToDelete = profiles[profileIndex];
+/**
+ * Evaluates one rule against the current system. Conditions are checked from
+ * cheapest to most expensive and evaluation stops at the first one that fails,
+ * so `command` only runs if everything else matched.
+ */
+async function evaluateAutoRule(
+	rule: AutoRule,
+	now: Date,
+): Promise<{ matched: boolean; reasons: string[] }> {
+	const reasons: string[] = [];
+	const fail = (reason: string) => ({
+		matched: false,
+		reasons: [reason],
+	});
 
-	try {
-		if (await exists(profileToDelete.zipFile)) {
-			await Deno.remove(profileToDelete.zipFile);
-			console.log(
-				chalk.gray(
-					`Deleted profile archive: ${
-						basename(
-							profileToDelete.zipFile,
-						)
-					}`,
-				),
-			);
-		} else {
-			console.warn(
-				chalk.yellow(
-					`Warning: Profile archive not found: ${
-						basename(
-							profileToDelete.zipFile,
-						)
-					}`,
-				),
+	if (rule.hostname !== undefined) {
+		const hostname = Deno.hostname();
+		if (!matchesAnyGlob(hostname, [rule.hostname])) {
+			return fail(
+				`hostname "${hostname}" does not match "${rule.hostname}"`,
 			);
 		}
-	} catch (error) {
-		console.error(
-			chalk.red(
-				`Error deleting profile archive ${
-					basename(
-						profileToDelete.zipFile,
-					)
-				}: ${error instanceof Error ? error.message : "Unknown error"}`,
-			),
+		reasons.push(`hostname "${hostname}" matches "${rule.hostname}"`);
+	}
+
+	if (rule.weekdays !== undefined) {
+		const today = WEEKDAYS[(now.getDay() + 6) % 7];
+		const days = rule.weekdays.map((d) => d.toLowerCase().substring(0, 3));
+		if (!days.includes(today)) {
+			return fail(`today (${today}) is not one of ${days.join(", ")}`);
+		}
+		reasons.push(`today (${today}) is one of ${days.join(", ")}`);
+	}
+
+	if (rule.time !== undefined) {
+		const window = parseTimeWindow(rule.time)!;
+		const minutes = now.getHours() * 60 + now.getMinutes();
+		const inWindow = window.start <= window.end
+			? minutes >= window.start && minutes < window.end
+			: minutes >= window.start || minutes < window.end; // wraps past midnight
+		const time = now.toTimeString().substring(0, 5);
+		if (!inWindow) {
+			return fail(`${time} is outside ${rule.time}`);
+		}
+		reasons.push(`${time} is within ${rule.time}`);
+	}
+
+	for (const [variable, pattern] of Object.entries(rule.env ?? {})) {
+		const value = Deno.env.get(variable);
+		if (value === undefined) {
+			return fail(`$${variable} is not set`);
+		}
+		if (pattern !== "*" && !matchesAnyGlob(value, [pattern])) {
+			return fail(`$${variable}="${value}" does not match "${pattern}"`);
+		}
+		reasons.push(
+			pattern === "*"
+				? `$${variable} is set`
+				: `$${variable}="${value}" matches "${pattern}"`,
 		);
 	}
 
-	profiles.splice(profileIndex, 1);
-	await writeProfiles(profiles);
-	console.log(
-		chalk.green(`Profile "${name}" deleted successfully from records.`),
-	);
+	if (rule.fileExists !== undefined) {
+		const path = rule.fileExists.replace(/^~(?=\/|$)/, ENV.HOME!);
+		if (!(await exists(path))) {
+			return fail(`${path} does not exist`);
+		}
+		reasons.push(`${path} exists`);
+	}
+
+	if (rule.command !== undefined) {
+		const result = await executeCommand("sh", ["-c", rule.command]);
+		const output = result.stdout.trim();
+		if (rule.output !== undefined) {
+			if (!result.success || !matchesAnyGlob(output, [rule.output])) {
+				return fail(
+					`output of \`${rule.command}\` ("${output}") does not match "${rule.output}"`,
+				);
+			}
+			reasons.push(
+				`output of \`${rule.command}\` matches "${rule.output}"`,
+			);
+		} else {
+			if (!result.success) {
+				return fail(
+					`\`${rule.command}\` exited with code ${result.code}`,
+				);
+			}
+			reasons.push(`\`${rule.command}\` succeeded`);
+		}
+	}
+
+	if (reasons.length === 0) {
+		reasons.push("no conditions (always matches)");
+	}
+	return { matched: true, reasons };
 }
 
 /**
- * Reset the application (delete profile directory)
+ * Returns the configured rules in the order they are evaluated: highest
+ * priority first, rules with the same priority in config order.
  */
-async function resetApplication(): Promise<void> {
-	console.log(
-		chalk.redBright.bold(
-			"WARNING: This will delete ALL profiles, backups, and manager settings!",
-		),
-	);
-	const confirm1 = confirm(
-		chalk.yellow("Are you absolutely sure you want to continue?"),
-	);
-	if (!confirm1) {
-		console.log(chalk.gray("Reset aborted."));
-		Deno.exit(0);
+function sortAutoRules(rules: AutoRule[]): { rule: AutoRule; index: number }[] {
+	return rules
+		.map((rule, index) => ({ rule, index }))
+		.sort((a, b) =>
+			(b.rule.priority ?? 0) - (a.rule.priority ?? 0) || a.index - b.index
+		);
+}
+
+/**
+ * Reads the auto rules and profiles, exiting if the rules have mistakes.
+ */
+async function readAutoRules(): Promise<{ rule: AutoRule; index: number }[]> {
+	const rules = (await readConfig()).autoRules;
+	if (!Array.isArray(rules)) {
+		console.error(
+			chalk.red(
+				`Error: "autoRules" in ${APP_PATHS.CONFIG_FILE} must be a list.`,
+			),
+		);
+		Deno.exit(1);
 	}
-	console.log(
-		chalk.redBright("This action CANNOT be undone. All data in ") +
-			chalk.cyan(APP_PATHS.CUSTOM_PROFILES_ROOT_DIR) +
-			chalk.redBright(" will be lost."),
-	);
-	const confirm2 = confirm(
-		chalk.yellow("Final confirmation: Delete everything?"),
-	);
-	if (!confirm2) {
-		console.log(chalk.gray("Reset aborted."));
-		Deno.exit(0);
+	const problems = validateAutoRules(rules, await readProfiles());
+	if (problems.length > 0) {
+		console.error(
+			chalk.red(`Error: Invalid autoRules in ${APP_PATHS.CONFIG_FILE}:`),
+		);
+		for (const problem of problems) {
+			console.error(chalk.red(`  - ${problem}`));
+		}
+		Deno.exit(1);
 	}
+	return sortAutoRules(rules);
+}
 
-	try {
+/**
+ * Pick a profile with the auto rules and switch to it unless it is already active
+ */
+async function autoApplyCmd(
+	options: CommandOptions & { dryRun?: boolean },
+): Promise<void> {
+	const rules = await readAutoRules();
+	if (rules.length === 0) {
 		console.log(
 			chalk.gray(
-				`Deleting directory: ${APP_PATHS.CUSTOM_PROFILES_ROOT_DIR}`,
+				`No autoRules in ${APP_PATHS.CONFIG_FILE}, nothing to do.`,
 			),
 		);
-		await Deno.remove(APP_PATHS.CUSTOM_PROFILES_ROOT_DIR, {
-			recursive: true,
+		setJsonResult({ rule: null, profile: null, switched: false });
+		return;
+	}
+
+	const now = new Date();
+	let chosen: { rule: AutoRule; label: string } | null = null;
+	const evaluations: Record<string, unknown>[] = [];
+	for (const { rule, index } of rules) {
+		const label = autoRuleLabel(rule, index);
+		const { matched, reasons } = await evaluateAutoRule(rule, now);
+		evaluations.push({
+			rule: rule.name ?? index + 1,
+			profile: rule.profile,
+			matched,
+			reasons,
 		});
-		console.log(chalk.green("Application reset successfully."));
+		if (!matched) {
+			console.log(chalk.gray(`${label} skipped: ${reasons[0]}.`));
+			continue;
+		}
+		console.log(
+			chalk.cyan(
+				`${label} matched (${
+					reasons.join(", ")
+				}) -> profile "${rule.profile}".`,
+			),
+		);
+		chosen = { rule, label };
+		break;
+	}
+	setJsonResult({ evaluations });
+
+	if (!chosen) {
 		console.log(
-			chalk.gray(
-				"All profiles, backups, and settings have been deleted. The profiles directory will be recreated on next run.",
-			),
+			chalk.gray("No rule matched, keeping the current profile."),
 		);
-	} catch (error) {
-		console.error(
-			chalk.red(
-				`Error during reset: ${
-					error instanceof Error ? error.message : "Unknown error"
-				}`,
+		setJsonResult({ rule: null, profile: null, switched: false });
+		return;
+	}
+	const profileName = chosen.rule.profile;
+	setJsonResult({ rule: chosen.rule.name ?? null, profile: profileName });
+
+	const active = (await readProfiles()).find((p) => p.active);
+	if (active?.name === profileName) {
+		console.log(
+			chalk.green(
+				`Profile "${profileName}" is already active, nothing to do.`,
 			),
 		);
-		console.error(
+		setJsonResult({ switched: false });
+		return;
+	}
+	if (options.dryRun) {
+		console.log(
 			chalk.yellow(
-				"The application data directory might be in an inconsistent state.",
+				`Would switch from ${
+					active ? `"${active.name}"` : "no active profile"
+				} to "${profileName}".`,
 			),
 		);
-		Deno.exit(1);
+		setJsonResult({ switched: false, dryRun: true });
+		return;
 	}
+
+	// the matching rule confirms the choice of profile, so login hooks work without --yes;
+	// any other prompt during the switch is still asked (or needs --yes)
+	await switchProfile(profileName, { ...options, confirmed: true });
+	setJsonResult({ switched: true });
 }
 
 /**
- * Export a profile to a user-specified location (Downloads or Home).
+ * List the auto rules in the order they are evaluated
  */
-async function exportProfile(name: string): Promise<void> {
-	console.log(chalk.yellow(`Exporting profile: ${name}`));
-	const profiles = await readProfiles();
-	const profile = profiles.find((p) => p.name === name);
-	if (!profile) {
-		console.error(chalk.red(`Error: Profile "${name}" not found.`));
-		Deno.exit(1);
+async function autoListCmd(): Promise<void> {
+	const rules = await readAutoRules();
+	setJsonResult({
+		rules: rules.map(({ rule, index }) => ({
+			...rule,
+			name: rule.name ?? null,
+			position: index + 1,
+		})),
+	});
+	if (rules.length === 0) {
+		console.log(
+			chalk.gray(
+				`No autoRules in ${APP_PATHS.CONFIG_FILE}. See the README for examples.`,
+			),
+		);
+		return;
 	}
 
-	const success = await withTempDir(
-		{ prefix: "cinnamon-export-" },
-		async (tempDir) => {
-			console.log(
-				chalk.gray(
-					`Extracting profile data from ${
-						basename(
-							profile.zipFile,
-						)
-					}...`,
-				),
-			);
-			if (!(await unzipArchive(profile.zipFile, tempDir))) {
-				return false;
-			}
-
-			const profileMeta = {
-				appName: PROGRAM_NAME,
-				appVersion: VERSION,
-				profileName: profile.name,
-				exportedAt: new Date().toISOString(),
-				originalCreatedAt: profile.lastModified, // this is actually last activated/created
-				description:
-					`Exported Cinnamon desktop profile: ${profile.name}`,
-			};
-			await Deno.writeTextFile(
-				join(tempDir, "cinnamon-profile-manager-metadata.json"),
-				JSON.stringify(profileMeta, null, 2),
-			);
-
-			const downloadsDir = ENV.HOME ? join(ENV.HOME, "Downloads") : null;
-			let targetDir = ENV.HOME!; // fallback to HOME
-			if (downloadsDir) {
-				try {
-					if (
-						(await exists(downloadsDir)) &&
-						(await Deno.stat(downloadsDir)).isDirectory
-					) {
-						targetDir = downloadsDir;
-					}
-				} catch (_e) {
-					/* ignore if Downloads dir check fails, use HOME */
-				}
-			}
-
-			const safeName = name.replace(/[^a-zA-Z0-9-_]/g, "_");
-			const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
-			const exportFileName =
-				`cinnamon-profile-${safeName}-export-${timestamp}.zip`;
-			const exportPath = join(targetDir, exportFileName);
-
-			console.log(
-				chalk.gray(`Creating export archive at ${exportPath}...`),
-			);
-			if (!(await zipDirectoryContents(tempDir, exportPath))) {
-				// zipDirectoryContents now zips "."
-				console.error(chalk.red("Failed to create export archive."));
-				return false;
-			}
-			console.log(
-				chalk.green(`Profile exported successfully to ${exportPath}`),
-			);
-			return true;
-		},
+	const table = new Table()
+		.header(["#", "Rule", "Priority", "Profile", "Conditions"])
+		.body(
+			rules.map(({ rule, index }, position) => {
+				const conditions = [
+					rule.hostname !== undefined && `hostname ${rule.hostname}`,
+					rule.weekdays !== undefined && rule.weekdays.join(","),
+					rule.time !== undefined && rule.time,
+					...Object.entries(rule.env ?? {}).map((
+						[variable, pattern],
+					) => `$${variable}=${pattern}`),
+					rule.fileExists !== undefined &&
+					`exists ${rule.fileExists}`,
+					rule.command !== undefined &&
+					`\`${rule.command}\`${
+						rule.output !== undefined ? ` = ${rule.output}` : ""
+					}`,
+				].filter(Boolean);
+				return [
+					String(position + 1),
+					rule.name ?? chalk.gray(`#${index + 1}`),
+					String(rule.priority ?? 0),
+					rule.profile,
+					conditions.join("; ") || chalk.gray("always"),
+				];
+			}),
+		)
+		.padding(2)
+		.border(true);
+	console.log(table.toString());
+	console.log(
+		chalk.gray(
+			`Use ${PROGRAM_NAME} auto apply --dry-run to see which rule matches now`,
+		),
 	);
-	if (!success) {
-		Deno.exit(1);
-	}
 }
 
 /**
- * Import a profile from an external zip file.
+ * Keep the active profile updated: saves current settings whenever dconf or the
+ * Cinnamon settings files change, once nothing changed for the quiet period.
  */
-async function importProfile(filepath: string): Promise<void> {
-	console.log(chalk.yellow(`Importing profile from: ${filepath}`));
-	if (!(await exists(filepath))) {
-		console.error(chalk.red(`Error: File not found: ${filepath}`));
+async function watchActiveProfileCmd(
+	options: { quietPeriod?: string },
+): Promise<void> {
+	const quietPeriod = options.quietPeriod !== undefined
+		? Number(options.quietPeriod)
+		: (await readConfig()).watchQuietPeriodSeconds;
+	if (!Number.isFinite(quietPeriod) || quietPeriod < 0) {
+		console.error(
+			chalk.red(
+				`Error: Invalid quiet period "${options.quietPeriod}". Use a number of seconds.`,
+			),
+		);
+		Deno.exit(1);
+	}
+	if (!(await readProfiles()).some((p) => p.active)) {
+		console.error(
+			chalk.red(
+				"Error: No active profile found. Create or switch to a profile first.",
+			),
+		);
 		Deno.exit(1);
 	}
 
-	await withTempDir({ prefix: "cinnamon-import-" }, async (tempDir) => {
-		console.log(chalk.gray("Extracting profile archive..."));
-		if (!(await unzipArchive(filepath, tempDir))) {
-			Deno.exit(1);
-		}
+	// only hold the lock while saving, so other commands can run in between
+	releaseLock();
 
-		let profileName = basename(filepath, ".zip")
-			.replace(/^cinnamon-profile-/i, "")
-			.replace(
-				/-export-\d{4}-\d{2}-\d{2}T\d{2}-\d{2}-\d{2}-\d{3}Z$/i,
-				"",
-			)
-			.replace(/[^a-zA-Z0-9-_]/g, "_") || `imported-${Date.now()}`;
+	const timestamp = () => chalk.gray(`[${new Date().toLocaleTimeString()}]`);
+	let pendingChanges = 0;
+	let backupTaken = false;
+	let saving = Promise.resolve();
+	let timer: ReturnType<typeof setTimeout> | undefined;
 
-		const metadataPath = join(
-			tempDir,
-			"cinnamon-profile-manager-metadata.json",
-		);
-		if (await exists(metadataPath)) {
-			try {
-				const metadata = JSON.parse(
-					await Deno.readTextFile(metadataPath),
-				);
-				if (
-					metadata.profileName &&
-					typeof metadata.profileName === "string"
-				) {
-					profileName = metadata.profileName.replace(
-						/[^a-zA-Z0-9-_]/g,
-						"_",
-					);
-					console.log(
-						chalk.gray(
-							`Found metadata. Original profile name (sanitized): "${profileName}"`,
-						),
-					);
-				}
-			} catch (e) {
+	const save = async () => {
+		const changes = pendingChanges;
+		pendingChanges = 0;
+		try {
+			await acquireLock(true);
+			// re-read, another command may have switched profiles in the meantime
+			const profiles = await readProfiles();
+			const activeProfile = profiles.find((p) => p.active);
+			if (!activeProfile) {
 				console.warn(
-					chalk.yellow(
-						`Warning: Could not parse metadata file: ${
-							e instanceof Error ? e.message : "Unknown error"
-						}`,
-					),
+					`${timestamp()} ${
+						chalk.yellow("No active profile anymore, not saving.")
+					}`,
 				);
+				return;
 			}
-		}
-
-		const newNameInput = prompt(
-			chalk.yellow(
-				`Enter name for this imported profile (default: "${profileName}"):`,
-			),
-			profileName,
-		);
-		if (newNameInput !== null && newNameInput.trim() !== "") {
-			profileName = newNameInput.trim().replace(/[^a-zA-Z0-9-_]/g, "_");
-		}
-		if (!profileName) {
-			// ensure profileName is not empty after sanitization or user input
-			profileName = `imported-profile-${Date.now()}`;
-			console.log(
-				chalk.yellow(
-					`Profile name was empty, using generated name: "${profileName}"`,
-				),
+			const componentOptions = await resolveUpdateOptions(
+				activeProfile,
+				{},
 			);
-		}
-
-		const profiles = await readProfiles();
-		const existingProfileIndex = profiles.findIndex(
-			(p) => p.name === profileName,
-		);
 
-		if (existingProfileIndex !== -1) {
-			const overwrite = confirm(
-				chalk.yellow(
-					`A profile named "${profileName}" already exists. Overwrite?`,
-				),
-			);
-			if (!overwrite) {
-				console.log(chalk.red("Import cancelled."));
-				Deno.exit(0);
-			}
-			const oldProfile = profiles[existingProfileIndex];
-			try {
-				if (await exists(oldProfile.zipFile)) {
-					await Deno.remove(oldProfile.zipFile);
-				}
-			} catch (e) {
-				console.warn(
-					chalk.yellow(
-						`Could not delete old zip ${
-							basename(
-								oldProfile.zipFile,
+			// one backup per session rather than per save, so they don't crowd out the others
+			if (!backupTaken) {
+				const backupFile = await createTimestampedBackup(
+					APP_PATHS.AUTO_BACKUP_DIR,
+					`pre-update-${
+						activeProfile.name.replace(/[^a-zA-Z0-9-_]/g, "_")
+					}`,
+					componentOptions,
+				);
+				if (!backupFile) {
+					console.warn(
+						`${timestamp()} ${
+							chalk.yellow(
+								"Failed to create pre-update backup, not saving.",
 							)
-						}: ${e instanceof Error ? e.message : "Unknown error"}`,
-					),
+						}`,
+					);
+					return;
+				}
+				console.log(
+					chalk.gray(`Backup created at: ${basename(backupFile)}`),
 				);
+				backupTaken = true;
 			}
-			profiles.splice(existingProfileIndex, 1);
-		}
 
-		// the tempDir now contains the extracted contents (share/, config/, dconf.ini, metadata.json etc.)
-		// we need to re-zip these into our internal profile format.
-		const newZipFile = join(
-			APP_PATHS.CUSTOM_PROFILES_ROOT_DIR,
-			`${profileName}-${crypto.randomUUID()}.zip`,
-		);
-		console.log(
-			chalk.gray(
-				`Creating internal profile archive ${basename(newZipFile)}...`,
-			),
-		);
-		if (!(await zipDirectoryContents(tempDir, newZipFile))) {
+			const result = await recaptureProfile(
+				profiles,
+				activeProfile,
+				componentOptions,
+				true,
+			);
+			if (result === "unchanged") {
+				console.log(
+					`${timestamp()} ${
+						chalk.gray(
+							`No differences from "${activeProfile.name}", nothing saved.`,
+						)
+					}`,
+				);
+			} else if (result) {
+				console.log(
+					`${timestamp()} ${
+						chalk.green(
+							`Saved "${activeProfile.name}" (${changes} change(s) detected).`,
+						)
+					}`,
+				);
+			} else {
+				console.error(
+					`${timestamp()} ${
+						chalk.red(`Failed to save "${activeProfile.name}".`)
+					}`,
+				);
+			}
+		} catch (error) {
 			console.error(
-				chalk.red(
-					"Failed to create internal profile archive from imported data.",
-				),
+				`${timestamp()} ${
+					chalk.red(
+						`Failed to save the active profile: ${
+							error instanceof Error
+								? error.message
+								: "Unknown error"
+						}`,
+					)
+				}`,
 			);
-			Deno.exit(1);
+		} finally {
+			releaseLock();
 		}
+	};
 
-		profiles.push({
-			name: profileName,
-			active: false, // imported profiles are not active by default
-			lastModified: new Date().toISOString(), // set lastModified to import time
-			zipFile: newZipFile,
-		});
-		await writeProfiles(profiles);
+	// bursts of changes (e.g. dragging a panel) are saved once they settle
+	const onChange = () => {
+		pendingChanges++;
+		clearTimeout(timer);
+		timer = setTimeout(() => {
+			saving = saving.then(save);
+		}, quietPeriod * 1000);
+	};
 
-		console.log(
-			chalk.green(`Profile "${profileName}" imported successfully.`),
-		);
-		console.log(
-			chalk.gray(
-				`Use '${PROGRAM_NAME} switch "${profileName}"' to activate this profile.`,
+	const dconfWatch = new Deno.Command("dconf", {
+		args: ["watch", DCONF_ROOT],
+		stdin: "null",
+		stdout: "piped",
+		stderr: "piped",
+	}).spawn();
+	globalThis.addEventListener("unload", () => {
+		try {
+			dconfWatch.kill();
+		} catch (_e) {
+			/* already exited */
+		}
+	});
+	const watchDconf = async () => {
+		for await (const _chunk of dconfWatch.stdout) {
+			onChange();
+		}
+		const [status, stderr] = await Promise.all([
+			dconfWatch.status,
+			new Response(dconfWatch.stderr).text(),
+		]);
+		console.warn(
+			chalk.yellow(
+				`Warning: dconf watch stopped (exit code ${status.code}), only file changes are watched now.`,
 			),
 		);
-	});
+		if (stderr.trim()) {
+			console.warn(chalk.gray(stderr.trim()));
+		}
+	};
+
+	const watchedDirs: string[] = [];
+	for (
+		const dir of [
+			CINNAMON_PATHS.SHARE_DIR_ABSOLUTE,
+			CINNAMON_PATHS.CONFIG_DIR_ABSOLUTE,
+		]
+	) {
+		if (await exists(dir)) {
+			watchedDirs.push(dir);
+		}
+	}
+	const watchFiles = async () => {
+		if (watchedDirs.length === 0) return;
+		for await (const event of Deno.watchFs(watchedDirs)) {
+			if (event.kind !== "access") {
+				onChange();
+			}
+		}
+	};
+
+	console.log(
+		chalk.yellow(
+			`Watching ${DCONF_ROOT} and ${
+				watchedDirs.join(", ") || "no settings directories"
+			} for changes to the active profile (quiet period: ${quietPeriod}s). Press Ctrl+C to stop.`,
+		),
+	);
+	await Promise.all([watchDconf(), watchFiles()]);
 }
 
 /**
- * Updates the currently active profile with current Cinnamon settings
+ * Backup current settings manually.
  */
-async function updateActiveProfile(options: CommandOptions): Promise<void> {
+async function backupCurrentSettingsCmd(
+	options: CommandOptions,
+): Promise<void> {
 	const componentOptions: ComponentOptions = {
 		userThemes: options.userThemes !== false,
 		systemThemes: options.addSystemThemes === true,
@@ -2236,231 +8336,791 @@ async function updateActiveProfile(options: CommandOptions): Promise<void> {
 		userFontsAlt: options.userFontsHome !== false,
 		systemFonts: options.addSystemFonts === true,
 		dconf: options.dconf !== false,
+		dconfRoots: parseDconfPathOption(options.dconfPath),
 	};
 
-	console.log(
-		chalk.yellow("Updating active profile with current settings..."),
+	if (options.scheduled) {
+		// skip the snapshot if nothing changed since the last scheduled one
+		const previous = sortBackupFiles(
+			await readBackupDir(APP_PATHS.SCHEDULED_BACKUP_DIR, "Scheduled"),
+		)[0];
+		console.log(chalk.yellow("Taking scheduled snapshot..."));
+		const backupFile = await createTimestampedBackup(
+			APP_PATHS.SCHEDULED_BACKUP_DIR,
+			"scheduled",
+			componentOptions,
+			previous?.fullPath ?? null,
+		);
+		if (!backupFile) {
+			console.error(chalk.red("Failed to create scheduled snapshot."));
+			Deno.exit(1);
+		}
+		if (backupFile === previous?.fullPath) {
+			setJsonResult({ backupFile: null, unchanged: true });
+			console.log(
+				chalk.green(
+					`Nothing changed since ${previous.filename}, skipped.`,
+				),
+			);
+			return;
+		}
+		setJsonResult({ backupFile, unchanged: false });
+		console.log(chalk.green(`Scheduled snapshot created @ ${backupFile}`));
+		return;
+	}
+
+	console.log(chalk.yellow("Backing up current settings..."));
+	const backupFile = await createTimestampedBackup(
+		APP_PATHS.BACKUP_DIR,
+		"manual-backup",
+		componentOptions,
 	);
-	const profiles = await readProfiles();
+	if (backupFile) {
+		setJsonResult({ backupFile });
+		console.log(chalk.green(`Backup created successfully @ ${backupFile}`));
+	} else {
+		console.error(chalk.red("Failed to create backup archive."));
+		Deno.exit(1);
+	}
+}
 
-	const activeProfile = profiles.find((p) => p.active);
-	if (!activeProfile) {
+/**
+ * Returns the command line that runs this tool from a systemd unit: the compiled
+ * binary itself, or `deno run` with the permissions of the start task.
+ */
+function selfCommandLine(): string[] {
+	const execPath = Deno.execPath();
+	if (basename(execPath) !== "deno") {
+		return [execPath];
+	}
+	return [
+		execPath,
+		"run",
+		"--allow-env=TF_BUILD,TERM,CI,TEAMCITY_VERSION,COLORTERM,COLOR,ANSI_COLORS,BEARZ_ANSI_COLOR,CLICOLOR_FORCE,CINNAMON_PROFILES_DIR,DCONF_SETTINGS_FILE,HOME,XDG_*,CINNAMON_PROFILE_*",
+		"--allow-sys=osRelease,hostname",
+		"--allow-read",
+		"--allow-write",
+		"--allow-run=cp,rm,which,dconf,cinnamon,sh",
+		fromFileUrl(Deno.mainModule),
+	];
+}
+
+/**
+ * Quotes an argument for an Exec line of a systemd unit.
+ */
+function quoteSystemdArgument(arg: string): string {
+	return /^[\w@%+=:,./-]+$/.test(arg)
+		? arg
+		: `"${arg.replace(/[\\"]/g, "\\$&")}"`;
+}
+
+/**
+ * Runs `systemctl --user`, exiting with its error output if it fails.
+ */
+async function runSystemctl(args: string[]): Promise<CommandResult> {
+	const result = await executeCommand("systemctl", ["--user", ...args]);
+	if (!result.success) {
 		console.error(
-			chalk.red(
-				"Error: No active profile found. Create or switch to a profile first.",
-			),
+			chalk.red(`Error: systemctl --user ${args.join(" ")} failed.`),
 		);
+		console.error(chalk.gray(result.stderr.trim()));
 		Deno.exit(1);
 	}
+	return result;
+}
 
-	console.log(chalk.gray(`Found active profile: ${activeProfile.name}`));
+/**
+ * Install a systemd user timer that takes scheduled snapshots
+ */
+async function scheduleInstallCmd(options: { every: string }): Promise<void> {
+	if (!(await getCommandPath("systemctl"))) {
+		console.error(
+			chalk.red("Error: systemctl not found. Scheduling needs systemd."),
+		);
+		Deno.exit(1);
+	}
+	const onCalendar = options.every.trim();
+	if (!["hourly", "daily", "weekly", "monthly"].includes(onCalendar)) {
+		// systemd-analyze may be missing, in which case systemd itself rejects a bad expression
+		if (await getCommandPath("systemd-analyze")) {
+			const check = await executeCommand("systemd-analyze", [
+				"calendar",
+				onCalendar,
+			]);
+			if (!check.success) {
+				console.error(
+					chalk.red(
+						`Error: "${onCalendar}" is not a valid OnCalendar expression.`,
+					),
+				);
+				console.error(chalk.gray(check.stderr.trim()));
+				Deno.exit(1);
+			}
+		}
+	}
 
-	const confirmed = confirm(
-		chalk.yellow(
-			`This will update "${activeProfile.name}" with your current settings. Continue?`,
+	const execStart = [
+		...selfCommandLine(),
+		"--non-interactive",
+		"--wait",
+		"backup",
+		"--scheduled",
+	].map(quoteSystemdArgument).join(" ");
+	const profilesDir = Deno.env.get("CINNAMON_PROFILES_DIR");
+	const service = [
+		"[Unit]",
+		`Description=Scheduled Cinnamon settings snapshot (${PROGRAM_NAME})`,
+		"",
+		"[Service]",
+		"Type=oneshot",
+		...(profilesDir
+			? [`Environment=${
+				quoteSystemdArgument(`CINNAMON_PROFILES_DIR=${profilesDir}`)
+			}`]
+			: []),
+		`ExecStart=${execStart}`,
+		"",
+	].join("\n");
+	const timer = [
+		"[Unit]",
+		`Description=Scheduled Cinnamon settings snapshot (${PROGRAM_NAME})`,
+		"",
+		"[Timer]",
+		`OnCalendar=${onCalendar}`,
+		"Persistent=true", // catch up on runs missed while logged out
+		"",
+		"[Install]",
+		"WantedBy=timers.target",
+		"",
+	].join("\n");
+
+	await Deno.mkdir(SCHEDULE_PATHS.UNIT_DIR, { recursive: true });
+	await writeFileAtomic(SCHEDULE_PATHS.SERVICE_FILE, service);
+	await writeFileAtomic(SCHEDULE_PATHS.TIMER_FILE, timer);
+	console.log(chalk.gray(`Wrote ${SCHEDULE_PATHS.SERVICE_FILE}`));
+	console.log(chalk.gray(`Wrote ${SCHEDULE_PATHS.TIMER_FILE}`));
+
+	await runSystemctl(["daemon-reload"]);
+	await runSystemctl([
+		"enable",
+		"--now",
+		basename(SCHEDULE_PATHS.TIMER_FILE),
+	]);
+	setJsonResult({
+		timer: SCHEDULE_PATHS.TIMER_FILE,
+		service: SCHEDULE_PATHS.SERVICE_FILE,
+		onCalendar,
+	});
+	console.log(
+		chalk.green(
+			`Scheduled snapshots enabled (${onCalendar}). They are stored in ${APP_PATHS.SCHEDULED_BACKUP_DIR}.`,
 		),
 	);
-	if (!confirmed) {
-		console.log(chalk.gray("Update cancelled."));
-		Deno.exit(0);
+}
+
+/**
+ * Remove the systemd user timer for scheduled snapshots
+ */
+async function scheduleRemoveCmd(): Promise<void> {
+	const installed = (await exists(SCHEDULE_PATHS.TIMER_FILE)) ||
+		(await exists(SCHEDULE_PATHS.SERVICE_FILE));
+	if (!installed) {
+		console.log(chalk.gray("No snapshot schedule is installed."));
+		setJsonResult({ removed: false });
+		return;
+	}
+	if (await getCommandPath("systemctl")) {
+		// the timer may already be disabled by hand, so failures here are not fatal
+		await executeCommand("systemctl", [
+			"--user",
+			"disable",
+			"--now",
+			basename(SCHEDULE_PATHS.TIMER_FILE),
+		]);
+	}
+	await Deno.remove(SCHEDULE_PATHS.TIMER_FILE).catch(() => {});
+	await Deno.remove(SCHEDULE_PATHS.SERVICE_FILE).catch(() => {});
+	if (await getCommandPath("systemctl")) {
+		await executeCommand("systemctl", ["--user", "daemon-reload"]);
 	}
+	setJsonResult({ removed: true });
+	console.log(
+		chalk.green(
+			"Snapshot schedule removed. Existing scheduled snapshots were kept.",
+		),
+	);
+}
 
-	// create backup before updating
-	console.log(chalk.gray("Creating backup before updating profile..."));
-	const backupFile = await createTimestampedBackup(
-		APP_PATHS.AUTO_BACKUP_DIR,
-		`pre-update-${activeProfile.name.replace(/[^a-zA-Z0-9-_]/g, "_")}`,
-		componentOptions,
+/**
+ * Show whether scheduled snapshots are set up and when they run
+ */
+async function scheduleStatusCmd(): Promise<void> {
+	const installed = await exists(SCHEDULE_PATHS.TIMER_FILE);
+	const onCalendar = installed
+		? (await Deno.readTextFile(SCHEDULE_PATHS.TIMER_FILE)).match(
+			/^OnCalendar=(.*)$/m,
+		)?.[1] ?? null
+		: null;
+
+	const timerState: Record<string, string> = {};
+	if (installed && (await getCommandPath("systemctl"))) {
+		const result = await executeCommand("systemctl", [
+			"--user",
+			"show",
+			basename(SCHEDULE_PATHS.TIMER_FILE),
+			"--property=UnitFileState,ActiveState,NextElapseUSecRealtime,LastTriggerUSec",
+		]);
+		for (const line of result.stdout.split("\n")) {
+			const separator = line.indexOf("=");
+			if (separator > 0) {
+				timerState[line.substring(0, separator)] = line.substring(
+					separator + 1,
+				);
+			}
+		}
+	}
+
+	const snapshots = sortBackupFiles(
+		await readBackupDir(APP_PATHS.SCHEDULED_BACKUP_DIR, "Scheduled"),
 	);
+	const latest = snapshots[0] ?? null;
+	setJsonResult({
+		installed,
+		onCalendar,
+		enabled: timerState.UnitFileState ?? null,
+		active: timerState.ActiveState ?? null,
+		nextRun: timerState.NextElapseUSecRealtime || null,
+		lastRun: timerState.LastTriggerUSec || null,
+		snapshots: snapshots.length,
+		latestSnapshot: latest?.fullPath ?? null,
+	});
 
-	if (backupFile) {
-		console.log(chalk.gray(`Backup created at: ${basename(backupFile)}`));
-	} else {
-		const proceed = confirm(
-			chalk.redBright(
-				"Failed to create pre-update backup. Continue anyway? (Not Recommended)",
+	const unknown = chalk.gray("unknown");
+	const table = new Table()
+		.body([
+			["Installed", installed ? chalk.green("yes") : "no"],
+			["Schedule", onCalendar ?? chalk.gray("-")],
+			["Enabled", timerState.UnitFileState ?? unknown],
+			["Active", timerState.ActiveState ?? unknown],
+			["Next Run", timerState.NextElapseUSecRealtime || chalk.gray("-")],
+			["Last Run", timerState.LastTriggerUSec || chalk.gray("-")],
+			["Snapshots", String(snapshots.length)],
+			[
+				"Latest Snapshot",
+				latest
+					? `${latest.filename}${
+						latest.date ? ` (${latest.date.toLocaleString()})` : ""
+					}`
+					: chalk.gray("none"),
+			],
+		])
+		.padding(2)
+		.border(true);
+	console.log(table.toString());
+	if (!installed) {
+		console.log(
+			chalk.gray(
+				`Use ${PROGRAM_NAME} schedule install --every daily to enable scheduled snapshots`,
 			),
 		);
-		if (!proceed) {
-			console.log(chalk.red("Update cancelled."));
-			Deno.exit(0);
+	}
+}
+
+/**
+ * Makes one side of a diff available: extracts an archive to a temporary
+ * directory, or snapshots the live dconf settings of `liveDconfRoots`
+ * (default: the configured roots) when no spec is given.
+ */
+async function withDiffSide<T>(
+	spec: string | undefined,
+	quiet: boolean,
+	action: (side: DiffSide) => Promise<T>,
+	liveDconfRoots?: string[],
+): Promise<T> {
+	if (spec === undefined) {
+		const dconfDumps = new Map<string, string>();
+		const roots = liveDconfRoots ?? await captureDconfRoots();
+		for (const root of roots) {
+			const dconfDumpResult = await executeCommand("dconf", [
+				"dump",
+				root,
+			]);
+			if (dconfDumpResult.success) {
+				dconfDumps.set(root, dconfDumpResult.stdout);
+			} else {
+				console.warn(
+					chalk.yellow(
+						`Warning: Failed to dump live dconf settings for ${root}. Its keys will not be compared.`,
+					),
+				);
+			}
 		}
-		console.warn(
-			chalk.yellow("Proceeding with update despite backup failure..."),
-		);
+		return await action({
+			label: "live desktop",
+			archiveDir: null,
+			dconfDumps,
+		});
 	}
 
-	const success = await withTempDir(
-		{ prefix: "cinnamon-profile-update-" },
-		async (tempDir) => {
-			const tempShareDir = join(tempDir, "share");
-			const tempConfigDir = join(tempDir, "config");
+	const resolved = await resolveArchiveSpec(spec);
+	if (!resolved) {
+		console.error(
+			chalk.red(
+				`Error: "${spec}" is not a profile name, backup file or archive path.`,
+			),
+		);
+		Deno.exit(1);
+	}
 
+	return await withTempDir({ prefix: "cinnamon-diff-" }, async (tempDir) => {
+		if (!quiet) {
 			console.log(
-				chalk.gray("Copying current Cinnamon file-based settings..."),
-			);
-			await copyDirectoryContents(
-				CINNAMON_PATHS.SHARE_DIR_ABSOLUTE,
-				tempShareDir,
-			);
-			await copyDirectoryContents(
-				CINNAMON_PATHS.CONFIG_DIR_ABSOLUTE,
-				tempConfigDir,
+				chalk.gray(`Extracting ${basename(resolved.zipFile)}...`),
 			);
+		}
+		if (!(await unzipArchive(resolved.zipFile, tempDir))) {
+			Deno.exit(1);
+		}
+		const dconfDumps = new Map<string, string>();
+		for (const [root, path] of await listDconfDumps(tempDir)) {
+			dconfDumps.set(root, await Deno.readTextFile(path));
+		}
+		return await action({
+			label: resolved.label,
+			archiveDir: tempDir,
+			dconfDumps,
+		});
+	});
+}
 
-			// copy themes, icons, and fonts for update
-			await copyThemeIconAndFontDirectories(tempDir, componentOptions);
+/**
+ * Returns the directory holding a component for a diff side.
+ */
+function diffSideDir(
+	side: DiffSide,
+	archiveDir: string,
+	livePath: string,
+): string {
+	return side.archiveDir === null
+		? livePath
+		: join(side.archiveDir, archiveDir);
+}
 
-			// dump dconf settings
-			if (componentOptions.dconf) {
-				const dconfDumpPath = join(tempDir, DCONF_SETTINGS_FILE);
-				console.log(
-					chalk.gray(
-						`Dumping dconf settings for /org/cinnamon/ to ${
-							basename(
-								dconfDumpPath,
-							)
-						}...`,
-					),
-				);
-				const dconfDumpResult = await executeCommand("dconf", [
-					"dump",
-					"/org/cinnamon/",
-				]);
-				if (dconfDumpResult.success && dconfDumpResult.stdout) {
-					await Deno.writeTextFile(
-						dconfDumpPath,
-						dconfDumpResult.stdout,
-					);
-					console.log(
-						chalk.gray("dconf settings dumped successfully."),
-					);
-				} else {
-					console.warn(
-						chalk.yellow(
-							`Warning: Failed to dump dconf settings for /org/cinnamon/. Profile will be updated without them.`,
-						),
-					);
-					console.warn(
-						chalk.gray(`dconf stderr: ${dconfDumpResult.stderr}`),
-					);
-				}
-			} else {
-				console.log(
-					chalk.gray(
-						"Skipping dconf settings update (disabled by option).",
-					),
-				);
+/**
+ * Lists the top-level entry names of a directory, or null if it is missing.
+ */
+async function listDirectoryNames(dir: string): Promise<Set<string> | null> {
+	try {
+		const names = new Set<string>();
+		for await (const entry of Deno.readDir(dir)) {
+			names.add(entry.name);
+		}
+		return names;
+	} catch (_e) {
+		return null;
+	}
+}
+
+/**
+ * Compares two JSON documents and returns the top-level keys that differ.
+ * Returns null when either side is not a JSON object.
+ */
+function changedJsonKeys(before: string, after: string): string[] | null {
+	try {
+		const a = JSON.parse(before);
+		const b = JSON.parse(after);
+		if (
+			typeof a !== "object" || typeof b !== "object" || a === null ||
+			b === null || Array.isArray(a) || Array.isArray(b)
+		) {
+			return null;
+		}
+		const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+		return [...keys].filter(
+			(key) => JSON.stringify(a[key]) !== JSON.stringify(b[key]),
+		).sort();
+	} catch (_e) {
+		return null;
+	}
+}
+
+/**
+ * Builds a diff report between two sides.
+ */
+async function compareDiffSides(
+	a: DiffSide,
+	b: DiffSide,
+	keyFilters?: DconfKeyFilters,
+): Promise<DiffReport> {
+	const report: DiffReport = {
+		a: a.label,
+		b: b.label,
+		dconf: [],
+		files: [],
+		components: [],
+	};
+
+	// dconf keys, for the roots both sides have
+	const keysA = new Map<string, string>();
+	const keysB = new Map<string, string>();
+	for (const [root, content] of a.dconfDumps) {
+		const other = b.dconfDumps.get(root);
+		if (other === undefined) {
+			console.warn(
+				chalk.yellow(
+					`Warning: dconf settings for ${root} are missing from ${b.label}. Skipping them.`,
+				),
+			);
+			continue;
+		}
+		const keep = (key: string) =>
+			!keyFilters || isDconfKeyIncluded(key, keyFilters);
+		filterDconfDump(content, root, keep).forEach((v, k) => keysA.set(k, v));
+		filterDconfDump(other, root, keep).forEach((v, k) => keysB.set(k, v));
+	}
+	for (const root of b.dconfDumps.keys()) {
+		if (!a.dconfDumps.has(root)) {
+			console.warn(
+				chalk.yellow(
+					`Warning: dconf settings for ${root} are missing from ${a.label}. Skipping them.`,
+				),
+			);
+		}
+	}
+	if (a.dconfDumps.size > 0 && b.dconfDumps.size > 0) {
+		for (const [key, before] of keysA) {
+			if (!keysB.has(key)) {
+				report.dconf.push({ key, change: "removed", before });
+			} else if (keysB.get(key) !== before) {
+				report.dconf.push({
+					key,
+					change: "changed",
+					before,
+					after: keysB.get(key),
+				});
 			}
+		}
+		for (const [key, after] of keysB) {
+			if (!keysA.has(key)) {
+				report.dconf.push({ key, change: "added", after });
+			}
+		}
+		report.dconf.sort((x, y) => x.key.localeCompare(y.key));
+	} else {
+		console.warn(
+			chalk.yellow(
+				`Warning: dconf settings are missing from ${
+					a.dconfDumps.size === 0 ? a.label : b.label
+				}. Skipping dconf comparison.`,
+			),
+		);
+	}
 
-			// delete the old zip file
-			try {
-				if (await exists(activeProfile.zipFile)) {
-					await Deno.remove(activeProfile.zipFile);
-					console.log(
-						chalk.gray(
-							`Deleted old profile archive: ${
-								basename(
-									activeProfile.zipFile,
-								)
-							}`,
-						),
-					);
-				}
-			} catch (error) {
-				console.warn(
-					chalk.yellow(
-						`Warning: Failed to delete old profile archive. Creating new file anyway.`,
-					),
-				);
-				console.warn(
-					chalk.gray(
-						`Error: ${
-							error instanceof Error
-								? error.message
-								: "Unknown error"
-						}`,
-					),
-				);
+	// spice JSON files under config/
+	const configA = diffSideDir(
+		a,
+		"config",
+		CINNAMON_PATHS.CONFIG_DIR_ABSOLUTE,
+	);
+	const configB = diffSideDir(
+		b,
+		"config",
+		CINNAMON_PATHS.CONFIG_DIR_ABSOLUTE,
+	);
+	const jsonA = new Set(
+		(await listFilesRecursive(configA)).filter((f) => f.endsWith(".json")),
+	);
+	const jsonB = new Set(
+		(await listFilesRecursive(configB)).filter((f) => f.endsWith(".json")),
+	);
+	for (const path of [...new Set([...jsonA, ...jsonB])].sort()) {
+		if (!jsonB.has(path)) {
+			report.files.push({ path, change: "removed" });
+		} else if (!jsonA.has(path)) {
+			report.files.push({ path, change: "added" });
+		} else {
+			const before = await Deno.readTextFile(join(configA, path));
+			const after = await Deno.readTextFile(join(configB, path));
+			if (before !== after) {
+				const keys = changedJsonKeys(before, after);
+				if (keys === null || keys.length > 0) {
+					report.files.push({
+						path,
+						change: "changed",
+						...(keys ? { keys } : {}),
+					});
+				}
 			}
+		}
+	}
 
-			// create new zip with the same filename
-			console.log(chalk.gray(`Creating updated profile archive...`));
-			if (!(await zipDirectoryContents(tempDir, activeProfile.zipFile))) {
-				return false;
-			}
+	// theme/icon/font directories
+	for (const { archiveDir, livePath } of ASSET_COMPONENT_DIRS) {
+		const namesA = await listDirectoryNames(
+			diffSideDir(a, archiveDir, livePath),
+		);
+		const namesB = await listDirectoryNames(
+			diffSideDir(b, archiveDir, livePath),
+		);
+		// an archive without a component did not capture it, so comparing it against
+		// the live system (or an opt-in system component at all) would only be noise
+		const compareLive = a.archiveDir === null || b.archiveDir === null;
+		if (
+			(compareLive || archiveDir.startsWith("system-")) &&
+			((a.archiveDir !== null && namesA === null) ||
+				(b.archiveDir !== null && namesB === null))
+		) {
+			continue;
+		}
+		const setA = namesA ?? new Set<string>();
+		const setB = namesB ?? new Set<string>();
+		for (const entry of [...setA].filter((n) => !setB.has(n)).sort()) {
+			report.components.push({
+				component: archiveDir,
+				entry,
+				onlyIn: "a",
+			});
+		}
+		for (const entry of [...setB].filter((n) => !setA.has(n)).sort()) {
+			report.components.push({
+				component: archiveDir,
+				entry,
+				onlyIn: "b",
+			});
+		}
+	}
 
-			// update the lastModified timestamp
-			activeProfile.lastModified = new Date().toISOString();
-			await writeProfiles(profiles);
+	return report;
+}
 
-			return true;
-		},
+/**
+ * Shortens a value for display in a table cell.
+ */
+function truncateForDisplay(value: string | undefined, max = 60): string {
+	if (value === undefined) return "";
+	return value.length > max ? `${value.substring(0, max - 3)}...` : value;
+}
+
+/**
+ * Prints a diff report as human readable tables.
+ */
+function printDiffReport(report: DiffReport): void {
+	console.log(
+		chalk.yellow(`Comparing ${report.a} (a) with ${report.b} (b):`),
 	);
+	if (
+		report.dconf.length === 0 && report.files.length === 0 &&
+		report.components.length === 0
+	) {
+		console.log(chalk.green("No differences found."));
+		return;
+	}
 
-	if (success) {
+	const changeLabel = (change: ChangeKind): string =>
+		change === "added"
+			? chalk.green("Added")
+			: change === "removed"
+			? chalk.red("Removed")
+			: chalk.yellow("Changed");
+
+	if (report.dconf.length > 0) {
+		console.log(chalk.yellow(`\ndconf keys (${report.dconf.length}):`));
+		const table = new Table()
+			.header(["Key", "Change", "a", "b"])
+			.padding(2)
+			.border(true);
+		for (const { key, change, before, after } of report.dconf) {
+			table.push([
+				key,
+				changeLabel(change),
+				truncateForDisplay(before),
+				truncateForDisplay(after),
+			]);
+		}
+		console.log(table.toString());
+	}
+
+	if (report.files.length > 0) {
 		console.log(
-			chalk.green(
-				`Profile "${activeProfile.name}" updated successfully with current settings.`,
+			chalk.yellow(`\nSpice config files (${report.files.length}):`),
+		);
+		const table = new Table()
+			.header(["File", "Change", "Changed Keys"])
+			.padding(2)
+			.border(true);
+		for (const { path, change, keys } of report.files) {
+			table.push([
+				join("config", path),
+				changeLabel(change),
+				keys ? truncateForDisplay(keys.join(", ")) : "",
+			]);
+		}
+		console.log(table.toString());
+	}
+
+	if (report.components.length > 0) {
+		console.log(
+			chalk.yellow(
+				`\nThemes, icons and fonts (${report.components.length}):`,
 			),
 		);
+		const table = new Table()
+			.header(["Component", "Entry", "Only In"])
+			.padding(2)
+			.border(true);
+		for (const { component, entry, onlyIn } of report.components) {
+			table.push([
+				component,
+				entry,
+				onlyIn === "a" ? chalk.red("a") : chalk.green("b"),
+			]);
+		}
+		console.log(table.toString());
+	}
+}
+
+/**
+ * Compare two profiles/backups, or one of them against the live desktop.
+ */
+async function diffProfiles(a: string, b: string | undefined): Promise<void> {
+	const report = await withDiffSide(
+		a,
+		false,
+		(sideA) =>
+			withDiffSide(
+				b,
+				false,
+				(sideB) => compareDiffSides(sideA, sideB),
+				[...sideA.dconfDumps.keys()],
+			),
+	);
+
+	if (RUNTIME_FLAGS.json) {
+		setJsonResult({ ...report });
 	} else {
+		printDiffReport(report);
+	}
+}
+
+/**
+ * Returns the number of differences in a diff report.
+ */
+function countDiffChanges(report: DiffReport): number {
+	return report.dconf.length + report.files.length +
+		report.components.length;
+}
+
+/**
+ * Show whether the live desktop has drifted from the active profile.
+ * Exits with 1 when there are unsaved changes and 2 when there is no active profile.
+ */
+async function showStatus(): Promise<void> {
+	const activeProfile = (await readProfiles()).find((p) => p.active);
+	if (!activeProfile) {
 		console.error(
-			chalk.red(`Failed to update profile "${activeProfile.name}".`),
+			chalk.red(
+				"Error: No active profile found. Create or switch to a profile first.",
+			),
 		);
+		Deno.exit(2);
+	}
+	if (!(await exists(activeProfile.zipFile))) {
 		console.error(
-			chalk.yellow(
-				`A backup was attempted before the update: ${
-					backupFile ? basename(backupFile) : "Failed"
-				}`,
+			chalk.red(
+				`Error: Archive for active profile "${activeProfile.name}" not found: ${activeProfile.zipFile}`,
 			),
 		);
-		Deno.exit(1);
+		Deno.exit(2);
 	}
-}
 
-/**
- * Backup current settings manually.
- */
-async function backupCurrentSettingsCmd(
-	options: CommandOptions,
-): Promise<void> {
-	const componentOptions: ComponentOptions = {
-		userThemes: options.userThemes !== false,
-		systemThemes: options.addSystemThemes === true,
-		userIcons: options.userIconsLocal !== false,
-		userIconsAlt: options.userIconsHome !== false,
-		systemIcons: options.addSystemIcons === true,
-		userFonts: options.userFontsLocal !== false,
-		userFontsAlt: options.userFontsHome !== false,
-		systemFonts: options.addSystemFonts === true,
-		dconf: options.dconf !== false,
-	};
+	// keys the profile does not carry are not differences
+	const keyFilters = await resolveDconfKeyFilters(
+		activeProfile.dconfKeyFilters,
+	);
+	const report = await withDiffSide(
+		activeProfile.name,
+		true,
+		(profileSide) =>
+			withDiffSide(
+				undefined,
+				true,
+				(liveSide) =>
+					compareDiffSides(profileSide, liveSide, keyFilters),
+				[...profileSide.dconfDumps.keys()],
+			),
+	);
 
-	console.log(chalk.yellow("Backing up current settings..."));
-	const backupFile = await createTimestampedBackup(
-		APP_PATHS.BACKUP_DIR,
-		"manual-backup",
-		componentOptions,
+	const clean = countDiffChanges(report) === 0;
+	// a dirty desktop is a valid answer, not a failure of the command
+	setJsonResult({
+		success: true,
+		profile: activeProfile.name,
+		clean,
+		...report,
+	});
+
+	console.log(chalk.yellow(`Active profile: ${activeProfile.name}`));
+	if (clean) {
+		console.log(chalk.green("clean"));
+		return;
+	}
+
+	const marker = (change: ChangeKind): string =>
+		change === "added"
+			? chalk.green("+")
+			: change === "removed"
+			? chalk.red("-")
+			: chalk.yellow("~");
+
+	console.log(
+		chalk.redBright("Unsaved changes since the profile was saved:"),
 	);
-	if (backupFile) {
-		console.log(chalk.green(`Backup created successfully @ ${backupFile}`));
-	} else {
-		console.error(chalk.red("Failed to create backup archive."));
-		Deno.exit(1);
+	if (report.dconf.length > 0) {
+		console.log(chalk.yellow(`dconf keys (${report.dconf.length}):`));
+		for (const { key, change } of report.dconf) {
+			console.log(`  ${marker(change)} ${key}`);
+		}
+	}
+	if (report.files.length > 0) {
+		console.log(chalk.yellow(`Spice configs (${report.files.length}):`));
+		for (const { path, change } of report.files) {
+			console.log(`  ${marker(change)} ${join("config", path)}`);
+		}
+	}
+	if (report.components.length > 0) {
+		console.log(
+			chalk.yellow(
+				`Themes, icons and fonts (${report.components.length}):`,
+			),
+		);
+		for (const { component, entry, onlyIn } of report.components) {
+			console.log(
+				`  ${
+					marker(onlyIn === "b" ? "added" : "removed")
+				} ${component}/${entry}`,
+			);
+		}
 	}
+	console.log(
+		chalk.gray(
+			`Use ${PROGRAM_NAME} update to save them, or ${PROGRAM_NAME} diff ${activeProfile.name} for details`,
+		),
+	);
+	Deno.exit(1);
 }
 
 // --- main application setup and execution ---
 async function main(): Promise<void> {
-	const zipPath = await getCommandPath("zip");
-	const unzipPath = await getCommandPath("unzip");
-	const dconfPath = await getCommandPath("dconf"); // check for dconf
+	if (Deno.args.includes("--json")) {
+		enableJsonOutput();
+	} else if (isExportingToStdout(Deno.args)) {
+		redirectLogsToStderr();
+	}
+
+	const dconfPath = await getCommandPath("dconf");
 
 	const missingDeps = [];
-	if (!zipPath) missingDeps.push("zip");
-	if (!unzipPath) missingDeps.push("unzip");
-	if (!dconfPath) missingDeps.push("dconf"); // add dconf to dependency check
+	if (!dconfPath) missingDeps.push("dconf");
 
 	if (missingDeps.length > 0) {
 		console.error(
@@ -2476,19 +9136,76 @@ async function main(): Promise<void> {
 	}
 
 	await ensureAppDirectories();
-	printHeader();
+	if (!RUNTIME_FLAGS.json) {
+		printHeader();
+	}
+	for (const signal of ["SIGINT", "SIGTERM"] as const) {
+		Deno.addSignalListener(
+			signal,
+			() => Deno.exit(signal === "SIGINT" ? 130 : 143),
+		);
+	}
 
 	const program = new Command()
 		.name(PROGRAM_NAME)
 		.description(
 			"A tool for managing Cinnamon desktop environment profiles. Includes settings, spices, panels, etc.",
 		)
-		.version(VERSION);
+		.version(VERSION)
+		.option("-y, --yes", "Answer yes to all confirmations")
+		.option(
+			"--non-interactive",
+			"Never prompt; fail if input would be required",
+		)
+		.option(
+			"--json",
+			"Print a single JSON document with the result to stdout (other output goes to stderr)",
+		)
+		.option(
+			"--wait",
+			"Wait for another running instance to finish instead of failing",
+		)
+		.hook("preAction", async (_program, actionCommand) => {
+			const globalOptions = program.opts();
+			RUNTIME_FLAGS.assumeYes = globalOptions.yes === true;
+			RUNTIME_FLAGS.nonInteractive =
+				globalOptions.nonInteractive === true ||
+				RUNTIME_FLAGS.assumeYes || RUNTIME_FLAGS.json ||
+				isExportingToStdout(Deno.args); // prompts would corrupt the archive
+			JSON_OUTPUT.command = actionCommand.parent === program
+				? actionCommand.name()
+				: `${actionCommand.parent?.name()} ${actionCommand.name()}`;
+			// `import -` only locks once stdin is read, so it can be fed by `export -o -` on the same machine
+			if (
+				READ_ONLY_COMMANDS.includes(JSON_OUTPUT.command) ||
+				isImportingFromStdin(Deno.args)
+			) {
+				return;
+			}
+			await acquireLock(globalOptions.wait === true);
+			await migrateZipArchivesToStore();
+			if (actionCommand.name() !== "reset") {
+				await recoverInterruptedRestore();
+			}
+		});
 
 	program
 		.command("list")
 		.alias("ls")
 		.description("List all available profiles.")
+		.option(
+			"--tag <tag>",
+			"Only list profiles with this tag (repeatable)",
+			collectOption,
+		)
+		.addOption(
+			new Option("--sort <field>", "Sort the list").choices([
+				"name",
+				"created",
+				"updated",
+				"activated",
+			]),
+		)
 		.action(listProfiles);
 
 	program
@@ -2521,6 +9238,27 @@ async function main(): Promise<void> {
 			"Include system fonts from /usr/share/fonts (may have permission issues and take a long time)",
 		)
 		.option("--no-dconf", "Skip dconf settings")
+		.option(
+			"--dconf-path <path>",
+			"dconf path to capture instead of the configured ones (repeatable)",
+			collectOption,
+		)
+		.option(
+			"--include-key <glob>",
+			"Only capture dconf keys matching this pattern (repeatable)",
+			collectOption,
+		)
+		.option(
+			"--exclude-key <glob>",
+			"Do not capture dconf keys matching this pattern (repeatable)",
+			collectOption,
+		)
+		.option("--description <text>", "Description of the profile")
+		.option(
+			"--tag <tag>",
+			"Tag the profile (repeatable)",
+			collectOption,
+		)
 		.action(createProfile);
 
 	program
@@ -2553,6 +9291,28 @@ async function main(): Promise<void> {
 			"Include restoring system fonts to /usr/share/fonts (may have permission issues and take a long time)",
 		)
 		.option("--no-dconf", "Skip restoring dconf settings")
+		.option(
+			"--dconf-path <path>",
+			"Only restore this dconf path (repeatable)",
+			collectOption,
+		)
+		.option(
+			"--only <targets>",
+			`Only restore these parts, comma separated (${
+				Object.keys(RESTORE_TARGETS).join(", ")
+			})`,
+			collectOption,
+		)
+		.option(
+			"--only-dconf <path>",
+			"Only restore dconf keys matching this path or glob; a trailing / selects a subtree (repeatable)",
+			collectOption,
+		)
+		.option(
+			"--only-file <glob>",
+			"Only restore Cinnamon files matching this glob, e.g. config/spices/** (repeatable)",
+			collectOption,
+		)
 		.option(
 			"--no-backup",
 			"Skip creating automatic backup before switching",
@@ -2566,6 +9326,24 @@ async function main(): Promise<void> {
 		.description("Delete an existing profile.")
 		.action(deleteProfile);
 
+	program
+		.command("rename")
+		.alias("mv")
+		.argument("<old>", "Name of the profile to rename.")
+		.argument("<new>", "New name for the profile.")
+		.description("Rename a profile, keeping its metadata and active state.")
+		.action(renameProfile);
+
+	program
+		.command("clone")
+		.alias("cp")
+		.argument("<source>", "Name of the profile to copy.")
+		.argument("<destination>", "Name for the copy.")
+		.description(
+			"Copy a profile under a new name as a starting point for a variant.",
+		)
+		.action(cloneProfile);
+
 	program
 		.command("backup")
 		.description(
@@ -2595,10 +9373,23 @@ async function main(): Promise<void> {
 			"Include system fonts from /usr/share/fonts (may have permission issues and take a long time)",
 		)
 		.option("--no-dconf", "Skip dconf settings")
+		.option(
+			"--dconf-path <path>",
+			"dconf path to capture instead of the configured ones (repeatable)",
+			collectOption,
+		)
+		.option(
+			"--scheduled",
+			"Take a snapshot for the schedule: store it with the scheduled backups and skip it if nothing changed",
+		)
 		.action(backupCurrentSettingsCmd);
 
 	program
 		.command("restore")
+		.argument(
+			"[backup-file]",
+			"Backup filename or path to restore (default: choose from a list).",
+		)
 		.description(
 			"Restore Cinnamon settings from a manual backup (files, dconf, themes, icons, and fonts).",
 		)
@@ -2626,6 +9417,28 @@ async function main(): Promise<void> {
 			"Include restoring system fonts to /usr/share/fonts (may have permission issues and take a long time)",
 		)
 		.option("--no-dconf", "Skip restoring dconf settings")
+		.option(
+			"--dconf-path <path>",
+			"Only restore this dconf path (repeatable)",
+			collectOption,
+		)
+		.option(
+			"--only <targets>",
+			`Only restore these parts, comma separated (${
+				Object.keys(RESTORE_TARGETS).join(", ")
+			})`,
+			collectOption,
+		)
+		.option(
+			"--only-dconf <path>",
+			"Only restore dconf keys matching this path or glob; a trailing / selects a subtree (repeatable)",
+			collectOption,
+		)
+		.option(
+			"--only-file <glob>",
+			"Only restore Cinnamon files matching this glob, e.g. config/spices/** (repeatable)",
+			collectOption,
+		)
 		.option(
 			"--no-backup",
 			"Skip creating automatic backup before restoring",
@@ -2635,25 +9448,135 @@ async function main(): Promise<void> {
 	program
 		.command("list-backups")
 		.alias("lb")
-		.description("List all available backup files (manual and automatic).")
+		.description(
+			"List all available backup files (manual, automatic and scheduled).",
+		)
 		.action(listBackups);
 
+	program
+		.command("prune")
+		.description(
+			"Remove old backups according to the retention policy in config.json.",
+		)
+		.option("--dry-run", "Only show which backups would be removed")
+		.action(pruneBackupsCmd);
+
+	const schedule = program
+		.command("schedule")
+		.description(
+			"Take snapshots of current settings periodically with a systemd user timer.",
+		);
+	schedule
+		.command("install")
+		.description("Install and start the snapshot timer.")
+		.option(
+			"--every <when>",
+			"hourly, daily, weekly, monthly or a systemd OnCalendar expression",
+			"daily",
+		)
+		.action(scheduleInstallCmd);
+	schedule
+		.command("remove")
+		.description("Stop and remove the snapshot timer (snapshots are kept).")
+		.action(scheduleRemoveCmd);
+	schedule
+		.command("status")
+		.description(
+			"Show the snapshot schedule and the latest scheduled snapshot.",
+		)
+		.action(scheduleStatusCmd);
+
 	program
 		.command("export")
 		.argument("<name>", "Name of the profile to export.")
 		.description(
 			"Export a profile to an external zip file (includes dconf settings, themes, icons, and fonts if present).",
 		)
+		.option(
+			"-o, --output <target>",
+			'File or directory to write the archive to, or "-" for stdout (default: ~/Downloads)',
+		)
+		.option("--redact", "Blank out settings that look like credentials")
+		.option(
+			"--no-redact",
+			"Export credentials in spice settings as they are",
+		)
+		.option(
+			"--exclude <components>",
+			"Comma-separated components to leave out: themes, icons, fonts, dconf or an archive directory such as system-themes (repeatable)",
+			collectOption,
+		)
 		.action(exportProfile);
 
 	program
 		.command("import")
-		.argument("<filepath>", "Path to the profile zip file to import.")
+		.argument(
+			"<filepath>",
+			'Path to the profile zip file to import, or "-" to read it from stdin.',
+		)
 		.description(
 			"Import a profile from an external zip file (applies dconf, themes, icons, and fonts if present).",
 		)
+		.option("--name <name>", "Name for the imported profile")
+		.addOption(
+			new Option(
+				"--on-conflict <action>",
+				"What to do if a profile with the same name exists",
+			).choices(["overwrite", "rename", "abort"]),
+		)
 		.action(importProfile);
 
+	program
+		.command("meta")
+		.argument("<name>", "Name of the profile.")
+		.description(
+			"Show or edit a profile's metadata (description, tags and dconf key filters).",
+		)
+		.option("--description <text>", "Set the description")
+		.option("--tag <tag>", "Add a tag (repeatable)", collectOption)
+		.option(
+			"--remove-tag <tag>",
+			"Remove a tag (repeatable)",
+			collectOption,
+		)
+		.option("--clear-tags", "Remove all tags")
+		.option(
+			"--include-key <glob>",
+			"Only carry dconf keys matching this pattern (repeatable)",
+			collectOption,
+		)
+		.option(
+			"--exclude-key <glob>",
+			"Never carry dconf keys matching this pattern (repeatable)",
+			collectOption,
+		)
+		.option(
+			"--reset-key-filters",
+			"Use the configured dconf key filters again",
+		)
+		.action(profileMetaCmd);
+
+	program
+		.command("show")
+		.argument("<name>", "Name of the profile, or a backup filename.")
+		.description(
+			"Show what a profile or backup contains: component sizes, themes, icons and fonts, appearance settings and spices.",
+		)
+		.action(showProfileCmd);
+
+	program
+		.command("verify")
+		.argument(
+			"[name]",
+			"Profile name or backup filename (default: the active profile).",
+		)
+		.description(
+			"Check profiles and backups for missing or damaged files using the checksums recorded in them.",
+		)
+		.option("--all", "Verify every profile")
+		.option("--backups", "Verify every backup")
+		.action(verifyArchivesCmd);
+
 	program
 		.command("update")
 		.alias("up")
@@ -2684,8 +9607,68 @@ async function main(): Promise<void> {
 			"Include system fonts from /usr/share/fonts (may have permission issues and take a long time)",
 		)
 		.option("--no-dconf", "Skip dconf settings")
+		.option(
+			"--dconf-path <path>",
+			"dconf path to capture instead of the configured ones (repeatable)",
+			collectOption,
+		)
 		.action(updateActiveProfile);
 
+	program
+		.command("watch")
+		.description(
+			"Keep the active profile updated: save current settings automatically whenever they change.",
+		)
+		.option(
+			"--quiet-period <seconds>",
+			"Seconds without further changes before saving (default: watchQuietPeriodSeconds in config.json)",
+		)
+		.action(watchActiveProfileCmd);
+
+	const auto = program
+		.command("auto")
+		.description(
+			"Pick the profile to use with rules in config.json (hostname, time, environment, files or commands).",
+		);
+	auto
+		.command("apply")
+		.description(
+			"Switch to the profile of the first matching rule unless it is already active.",
+		)
+		.option(
+			"--dry-run",
+			"Only show which rule matches and what would change",
+		)
+		.option(
+			"--no-backup",
+			"Skip creating automatic backup before switching",
+		)
+		.action(autoApplyCmd);
+	auto
+		.command("list")
+		.description("List the rules in the order they are evaluated.")
+		.action(autoListCmd);
+
+	program
+		.command("diff")
+		.argument("<a>", "Profile name, backup file or archive path.")
+		.argument(
+			"[b]",
+			"Profile name, backup file or archive path (default: the live desktop).",
+		)
+		.description(
+			"Show differences in dconf keys, spice configs, themes, icons, and fonts between two profiles/backups, or one of them and the live desktop.",
+		)
+		.action(diffProfiles);
+
+	program
+		.command("status")
+		.alias("st")
+		.description(
+			"Check whether current settings differ from the active profile (exits with 1 if they do).",
+		)
+		.action(showStatus);
+
 	program
 		.command("reset")
 		.description(
@@ -2734,6 +9717,47 @@ async function main(): Promise<void> {
 	}
 }
 
+// internals covered by main_test.ts
+export {
+	APP_PATHS,
+	ArchiveError,
+	blobPath,
+	checkNoPendingRestore,
+	checkSymlinkTarget,
+	collectGarbage,
+	crc32,
+	evaluateAutoRule,
+	extractZipArchive,
+	IMPORT_LIMITS,
+	isDconfKeyIncluded,
+	listNewPaths,
+	migrateZipArchivesToStore,
+	parseTimeWindow,
+	readProfiles,
+	readZipEntry,
+	recoverInterruptedRestore,
+	renameProfileInAutoRules,
+	restoreSnapshot,
+	retentionBucketKey,
+	rollbackRestore,
+	RUNTIME_FLAGS,
+	safeEntryPath,
+	selectBackupsToPrune,
+	sortAutoRules,
+	validateAutoRules,
+	validateImportEntries,
+	writeProfiles,
+	writeSnapshot,
+	zipDirectoryContents,
+};
+export type {
+	ArchiveEntry,
+	BackupFile,
+	ComponentOptions,
+	Profile,
+	RestoreJournal,
+};
+
 if (import.meta.main) {
 	main().catch((err) => {
 		console.error(
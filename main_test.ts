@@ -0,0 +1,869 @@
+import {
+	assert,
+	assertEquals,
+	assertFalse,
+	assertRejects,
+	assertStringIncludes,
+	assertThrows,
+} from "@std/assert";
+import { join } from "@std/path";
+
+// main.ts reads its paths when it is loaded, so point them at scratch directories first
+const scratchDir = await Deno.makeTempDir({ prefix: "cinnamon-test-" });
+const homeDir = join(scratchDir, "home");
+const profilesDir = join(scratchDir, "profiles");
+Deno.env.set("HOME", homeDir);
+Deno.env.set("CINNAMON_PROFILES_DIR", profilesDir);
+const {
+	APP_PATHS,
+	ArchiveError,
+	blobPath,
+	checkNoPendingRestore,
+	checkSymlinkTarget,
+	collectGarbage,
+	crc32,
+	evaluateAutoRule,
+	extractZipArchive,
+	IMPORT_LIMITS,
+	isDconfKeyIncluded,
+	listNewPaths,
+	migrateZipArchivesToStore,
+	parseTimeWindow,
+	readProfiles,
+	readZipEntry,
+	recoverInterruptedRestore,
+	renameProfileInAutoRules,
+	restoreSnapshot,
+	retentionBucketKey,
+	rollbackRestore,
+	RUNTIME_FLAGS,
+	safeEntryPath,
+	selectBackupsToPrune,
+	sortAutoRules,
+	validateAutoRules,
+	validateImportEntries,
+	writeProfiles,
+	writeSnapshot,
+	zipDirectoryContents,
+} = await import("./main.ts");
+import type {
+	ArchiveEntry,
+	BackupFile,
+	ComponentOptions,
+	Profile,
+	RestoreJournal,
+} from "./main.ts";
+
+RUNTIME_FLAGS.nonInteractive = true; // a prompt would hang the tests
+globalThis.addEventListener("unload", () => {
+	Deno.removeSync(scratchDir, { recursive: true });
+});
+
+/**
+ * Empties the scratch directory, so every test starts with an empty home and profiles directory.
+ */
+async function resetScratchDirs(): Promise<void> {
+	for await (const entry of Deno.readDir(scratchDir)) {
+		await Deno.remove(join(scratchDir, entry.name), { recursive: true });
+	}
+	await Deno.mkdir(homeDir);
+	await Deno.mkdir(profilesDir);
+}
+
+/**
+ * Creates the given files (path relative to `root` -> content) and their parent directories.
+ */
+async function writeTree(
+	root: string,
+	files: Record<string, string>,
+): Promise<void> {
+	for (const [path, content] of Object.entries(files)) {
+		const fullPath = join(root, path);
+		await Deno.mkdir(join(fullPath, ".."), { recursive: true });
+		await Deno.writeTextFile(fullPath, content);
+	}
+}
+
+async function pathExists(path: string): Promise<boolean> {
+	try {
+		await Deno.lstat(path);
+		return true;
+	} catch (_e) {
+		return false;
+	}
+}
+
+/**
+ * Finds the central directory record of the first entry in a zip file.
+ */
+function centralHeaderOffset(zip: Uint8Array): number {
+	for (let i = 0; i + 4 <= zip.length; i++) {
+		if (
+			zip[i] === 0x50 && zip[i + 1] === 0x4b && zip[i + 2] === 0x01 &&
+			zip[i + 3] === 0x02
+		) {
+			return i;
+		}
+	}
+	throw new Error("No central directory record found.");
+}
+
+/**
+ * Builds a zip archive with a single stored entry whose sizes, offsets and
+ * entry count are all given in zip64 records.
+ */
+function buildZip64Archive(name: string, content: Uint8Array): Uint8Array {
+	const nameBytes = new TextEncoder().encode(name);
+	const crc = crc32(0, content);
+
+	const local = new DataView(new ArrayBuffer(30 + nameBytes.length + 20));
+	local.setUint32(0, 0x04034b50, true);
+	local.setUint16(4, 45, true);
+	local.setUint16(6, 0x0800, true);
+	local.setUint32(14, crc, true);
+	local.setUint32(18, 0xffffffff, true);
+	local.setUint32(22, 0xffffffff, true);
+	local.setUint16(26, nameBytes.length, true);
+	local.setUint16(28, 20, true);
+	new Uint8Array(local.buffer).set(nameBytes, 30);
+	local.setUint16(30 + nameBytes.length, 0x0001, true);
+	local.setUint16(32 + nameBytes.length, 16, true);
+	local.setBigUint64(34 + nameBytes.length, BigInt(content.length), true);
+	local.setBigUint64(42 + nameBytes.length, BigInt(content.length), true);
+
+	const central = new DataView(new ArrayBuffer(46 + nameBytes.length + 28));
+	central.setUint32(0, 0x02014b50, true);
+	central.setUint16(4, 0x031e, true);
+	central.setUint16(6, 45, true);
+	central.setUint16(8, 0x0800, true);
+	central.setUint32(16, crc, true);
+	central.setUint32(20, 0xffffffff, true);
+	central.setUint32(24, 0xffffffff, true);
+	central.setUint16(28, nameBytes.length, true);
+	central.setUint16(30, 28, true);
+	central.setUint32(38, (0o100644 << 16) >>> 0, true);
+	central.setUint32(42, 0xffffffff, true);
+	new Uint8Array(central.buffer).set(nameBytes, 46);
+	central.setUint16(46 + nameBytes.length, 0x0001, true);
+	central.setUint16(48 + nameBytes.length, 24, true);
+	central.setBigUint64(50 + nameBytes.length, BigInt(content.length), true);
+	central.setBigUint64(58 + nameBytes.length, BigInt(content.length), true);
+	central.setBigUint64(66 + nameBytes.length, 0n, true);
+
+	const centralOffset = local.byteLength + content.length;
+	const end = new DataView(new ArrayBuffer(56 + 20 + 22));
+	end.setUint32(0, 0x06064b50, true);
+	end.setBigUint64(4, 44n, true);
+	end.setUint16(12, 0x031e, true);
+	end.setUint16(14, 45, true);
+	end.setBigUint64(24, 1n, true);
+	end.setBigUint64(32, 1n, true);
+	end.setBigUint64(40, BigInt(central.byteLength), true);
+	end.setBigUint64(48, BigInt(centralOffset), true);
+	end.setUint32(56, 0x07064b50, true);
+	end.setBigUint64(64, BigInt(centralOffset + central.byteLength), true);
+	end.setUint32(72, 1, true);
+	end.setUint32(76, 0x06054b50, true);
+	end.setUint16(84, 0xffff, true);
+	end.setUint16(86, 0xffff, true);
+	end.setUint32(88, 0xffffffff, true);
+	end.setUint32(92, 0xffffffff, true);
+
+	const archive = new Uint8Array(
+		centralOffset + central.byteLength + end.byteLength,
+	);
+	archive.set(new Uint8Array(local.buffer), 0);
+	archive.set(content, local.byteLength);
+	archive.set(new Uint8Array(central.buffer), centralOffset);
+	archive.set(
+		new Uint8Array(end.buffer),
+		centralOffset + central.byteLength,
+	);
+	return archive;
+}
+
+// --- zip archive engine ---
+
+Deno.test("zip archives round-trip files, directories and symlinks", async () => {
+	await resetScratchDirs();
+	const sourceDir = join(scratchDir, "source");
+	await writeTree(sourceDir, {
+		"config/cinnamon/panel.json": '{"panels": 2}',
+		"user-themes/Dark/index.theme": "[Desktop Entry]\n".repeat(1000),
+		"empty.txt": "",
+	});
+	await Deno.mkdir(join(sourceDir, "user-icons"));
+	await Deno.symlink("Dark", join(sourceDir, "user-themes", "Current"));
+	const zipFile = join(scratchDir, "round-trip.zip");
+
+	assert(await zipDirectoryContents(sourceDir, zipFile));
+	const extractDir = join(scratchDir, "extracted");
+	await extractZipArchive(zipFile, extractDir);
+
+	assertEquals(
+		await Deno.readTextFile(
+			join(extractDir, "user-themes/Dark/index.theme"),
+		),
+		"[Desktop Entry]\n".repeat(1000),
+	);
+	assertEquals(
+		await Deno.readTextFile(join(extractDir, "config/cinnamon/panel.json")),
+		'{"panels": 2}',
+	);
+	assertEquals(await Deno.readTextFile(join(extractDir, "empty.txt")), "");
+	assert((await Deno.stat(join(extractDir, "user-icons"))).isDirectory);
+	assertEquals(
+		await Deno.readLink(join(extractDir, "user-themes/Current")),
+		"Dark",
+	);
+});
+
+Deno.test("zip entries with a wrong checksum are rejected", async () => {
+	await resetScratchDirs();
+	const sourceDir = join(scratchDir, "source");
+	await writeTree(sourceDir, { "a.txt": "some settings" });
+	const zipFile = join(scratchDir, "corrupt.zip");
+	assert(await zipDirectoryContents(sourceDir, zipFile));
+
+	const zip = await Deno.readFile(zipFile);
+	zip[centralHeaderOffset(zip) + 16] ^= 0xff; // CRC-32 in the central directory
+	await Deno.writeFile(zipFile, zip);
+
+	const error = await assertRejects(
+		() => readZipEntry(zipFile, "a.txt"),
+		ArchiveError,
+	);
+	assertEquals(error.code, "CHECKSUM_MISMATCH");
+});
+
+Deno.test("zip entries larger than their recorded size are rejected", async () => {
+	await resetScratchDirs();
+	const sourceDir = join(scratchDir, "source");
+	await writeTree(sourceDir, { "bomb.txt": "0".repeat(100_000) });
+	const zipFile = join(scratchDir, "bomb.zip");
+	assert(await zipDirectoryContents(sourceDir, zipFile));
+
+	const zip = await Deno.readFile(zipFile);
+	new DataView(zip.buffer).setUint32(centralHeaderOffset(zip) + 24, 10, true); // uncompressed size
+	await Deno.writeFile(zipFile, zip);
+
+	const error = await assertRejects(
+		() => readZipEntry(zipFile, "bomb.txt"),
+		ArchiveError,
+		"larger than its recorded size",
+	);
+	assertEquals(error.code, "INVALID_ARCHIVE");
+});
+
+Deno.test("zip64 archives are read", async () => {
+	await resetScratchDirs();
+	const zipFile = join(scratchDir, "zip64.zip");
+	await Deno.writeFile(
+		zipFile,
+		buildZip64Archive("hello.txt", new TextEncoder().encode("hello")),
+	);
+
+	const data = await readZipEntry(zipFile, "hello.txt");
+	assertEquals(new TextDecoder().decode(data!), "hello");
+});
+
+Deno.test("entry paths outside the extraction directory are rejected", () => {
+	assertEquals(
+		safeEntryPath("./share//cinnamon/a", "x.zip"),
+		"share/cinnamon/a",
+	);
+	for (const name of ["../evil", "share/../../evil", "/etc/passwd"]) {
+		const error = assertThrows(
+			() => safeEntryPath(name, "x.zip"),
+			ArchiveError,
+		);
+		assertEquals(error.code, "UNSAFE_PATH");
+	}
+});
+
+Deno.test("symlinks must stay inside their component directory", () => {
+	checkSymlinkTarget("user-icons/Papirus/a.png", "b.png", "x.zip");
+	checkSymlinkTarget("user-icons/Papirus/16/a.png", "../32/a.png", "x.zip");
+	checkSymlinkTarget("link", "user-themes/Dark", "x.zip");
+	for (
+		const [path, target] of [
+			["user-icons/a", "/etc/passwd"],
+			["user-icons/a", "../user-themes/b"],
+			["user-icons/Papirus/a", "../../../.ssh"],
+			["link", "../outside"],
+			["user-icons/a", ""],
+		]
+	) {
+		const error = assertThrows(
+			() => checkSymlinkTarget(path, target, "x.zip"),
+			ArchiveError,
+		);
+		assertEquals(error.code, "UNSAFE_PATH");
+	}
+});
+
+Deno.test("extracting a zip with an escaping symlink fails before creating it", async () => {
+	await resetScratchDirs();
+	const sourceDir = join(scratchDir, "source");
+	await writeTree(sourceDir, { "user-themes/Dark/index.theme": "x" });
+	await Deno.symlink("../../..", join(sourceDir, "user-themes", "escape"));
+	const zipFile = join(scratchDir, "escape.zip");
+	assert(await zipDirectoryContents(sourceDir, zipFile));
+
+	const extractDir = join(scratchDir, "extracted");
+	const error = await assertRejects(
+		() => extractZipArchive(zipFile, extractDir),
+		ArchiveError,
+	);
+	assertEquals(error.code, "UNSAFE_PATH");
+	assertFalse(await pathExists(join(extractDir, "user-themes/escape")));
+});
+
+Deno.test("imports over the size and entry limits are rejected", () => {
+	const file = (path: string, size: number): ArchiveEntry => ({
+		path,
+		type: "file",
+		size,
+		mode: 0o644,
+	});
+
+	validateImportEntries([file("user-fonts/a.ttf", 1024)], "x.zip");
+	const tooLarge = assertThrows(
+		() =>
+			validateImportEntries(
+				[file("user-fonts/a.ttf", IMPORT_LIMITS.MAX_FILE_SIZE + 1)],
+				"x.zip",
+			),
+		ArchiveError,
+	);
+	assertEquals(tooLarge.code, "TOO_LARGE");
+
+	const count = Math.ceil(
+		IMPORT_LIMITS.MAX_TOTAL_SIZE / IMPORT_LIMITS.MAX_FILE_SIZE,
+	) + 1;
+	const tooMuch = assertThrows(
+		() =>
+			validateImportEntries(
+				Array.from(
+					{ length: count },
+					(_, i) =>
+						file(
+							`user-fonts/${i}.ttf`,
+							IMPORT_LIMITS.MAX_FILE_SIZE,
+						),
+				),
+				"x.zip",
+			),
+		ArchiveError,
+	);
+	assertEquals(tooMuch.code, "TOO_LARGE");
+
+	for (
+		const entry of [
+			file("evil.sh", 10),
+			{ ...file("user-icons/a.png", 10), mode: 0o4755 },
+			{
+				path: "user-icons/a",
+				type: "symlink",
+				size: 0,
+				mode: null,
+				target: "../../.bashrc",
+			} as ArchiveEntry,
+		]
+	) {
+		const error = assertThrows(
+			() => validateImportEntries([entry], "x.zip"),
+			ArchiveError,
+		);
+		assertEquals(error.code, "UNSAFE_PATH");
+	}
+});
+
+// --- object store ---
+
+Deno.test("snapshots restore the stored tree and share identical files", async () => {
+	await resetScratchDirs();
+	const sourceDir = join(scratchDir, "source");
+	await writeTree(sourceDir, {
+		"share/a.json": "same",
+		"config/b.json": "same",
+		"config/c.json": "other",
+	});
+	const manifest = join(profilesDir, "one.snapshot.json");
+
+	assert(await writeSnapshot(sourceDir, manifest));
+	const restoredDir = join(scratchDir, "restored");
+	assert(await restoreSnapshot(manifest, restoredDir));
+
+	assertEquals(
+		await Deno.readTextFile(join(restoredDir, "share/a.json")),
+		"same",
+	);
+	assertEquals(
+		await Deno.readTextFile(join(restoredDir, "config/c.json")),
+		"other",
+	);
+	let blobs = 0;
+	for await (const prefix of Deno.readDir(APP_PATHS.OBJECTS_DIR)) {
+		for await (
+			const _blob of Deno.readDir(
+				join(APP_PATHS.OBJECTS_DIR, prefix.name),
+			)
+		) {
+			blobs++;
+		}
+	}
+	assertEquals(blobs, 2);
+});
+
+Deno.test("a damaged blob is written again by the next snapshot", async () => {
+	await resetScratchDirs();
+	const sourceDir = join(scratchDir, "source");
+	await writeTree(sourceDir, { "a.json": "important" });
+	assert(
+		await writeSnapshot(sourceDir, join(profilesDir, "1.snapshot.json")),
+	);
+	const manifest = JSON.parse(
+		await Deno.readTextFile(join(profilesDir, "1.snapshot.json")),
+	);
+	const blob = blobPath(manifest.entries[0].hash);
+	await Deno.writeTextFile(blob, "imp0rtant");
+
+	assert(
+		await writeSnapshot(sourceDir, join(profilesDir, "2.snapshot.json")),
+	);
+	assertEquals(await Deno.readTextFile(blob), "important");
+});
+
+Deno.test("garbage collection removes only unreferenced blobs", async () => {
+	await resetScratchDirs();
+	const sourceDir = join(scratchDir, "source");
+	await writeTree(sourceDir, { "kept.json": "kept" });
+	assert(
+		await writeSnapshot(sourceDir, join(profilesDir, "kept.snapshot.json")),
+	);
+	await writeTree(sourceDir, { "dropped.json": "dropped" });
+	assert(
+		await writeSnapshot(
+			sourceDir,
+			join(profilesDir, "dropped.snapshot.json"),
+		),
+	);
+	await Deno.remove(join(profilesDir, "dropped.snapshot.json"));
+
+	assertEquals(await collectGarbage(), 1);
+	const restoredDir = join(scratchDir, "restored");
+	assert(
+		await restoreSnapshot(
+			join(profilesDir, "kept.snapshot.json"),
+			restoredDir,
+		),
+	);
+	assertEquals(
+		await Deno.readTextFile(join(restoredDir, "kept.json")),
+		"kept",
+	);
+});
+
+Deno.test("legacy zip archives are converted only on the first run", async () => {
+	await resetScratchDirs();
+	const sourceDir = join(scratchDir, "source");
+	await writeTree(sourceDir, { "config/a.json": "legacy" });
+	const makeLegacyProfile = async (name: string) => {
+		const zipFile = join(profilesDir, `${name}.zip`);
+		assert(await zipDirectoryContents(sourceDir, zipFile));
+		return {
+			name,
+			zipFile,
+			createdAt: "2024-01-01T00:00:00.000Z",
+			updatedAt: "2024-01-01T00:00:00.000Z",
+		} as Profile;
+	};
+
+	await writeProfiles([await makeLegacyProfile("old")]);
+	await migrateZipArchivesToStore();
+	const [migrated] = await readProfiles();
+	assert(migrated.zipFile.endsWith(".snapshot.json"));
+	assertFalse(await pathExists(join(profilesDir, "old.zip")));
+	assert(await pathExists(APP_PATHS.STORE_MIGRATED_FILE));
+
+	await writeProfiles([migrated, await makeLegacyProfile("late")]);
+	await migrateZipArchivesToStore();
+	assert(await pathExists(join(profilesDir, "late.zip")));
+});
+
+// --- backup retention ---
+
+Deno.test("retention buckets use local days, ISO weeks and months", () => {
+	const date = (y: number, m: number, d: number) => new Date(y, m - 1, d, 12);
+	assertEquals(retentionBucketKey(date(2024, 3, 9), "daily"), "2024-03-09");
+	assertEquals(retentionBucketKey(date(2024, 3, 9), "monthly"), "2024-03");
+	assertEquals(retentionBucketKey(date(2024, 1, 1), "weekly"), "2024-W01");
+	assertEquals(retentionBucketKey(date(2021, 1, 3), "weekly"), "2020-W53");
+	assertEquals(retentionBucketKey(date(2024, 12, 30), "weekly"), "2025-W01");
+});
+
+Deno.test("pruning keeps the newest backups and the newest of each bucket", () => {
+	const backup = (filename: string, date: Date | null): BackupFile => ({
+		filename,
+		date,
+		fullPath: `/backups/${filename}`,
+		type: "Manual",
+	});
+	const files = [
+		backup("jan-08", new Date(2024, 0, 8, 10)),
+		backup("jan-09-late", new Date(2024, 0, 9, 18)),
+		backup("jan-09-early", new Date(2024, 0, 9, 8)),
+		backup("jan-10-early", new Date(2024, 0, 10, 9)),
+		backup("jan-10-late", new Date(2024, 0, 10, 12)),
+		backup("undated", null),
+	];
+
+	const pruned = selectBackupsToPrune(files, {
+		keepLast: 1,
+		keepDaily: 2,
+		keepWeekly: 0,
+		keepMonthly: 0,
+	});
+	assertEquals(
+		pruned.map((f) => f.filename),
+		["jan-10-early", "jan-09-early", "jan-08"],
+	);
+
+	const none = selectBackupsToPrune(files, {
+		keepLast: 0,
+		keepDaily: 0,
+		keepWeekly: 0,
+		keepMonthly: 0,
+	});
+	assertFalse(
+		none.some((f) =>
+			f.filename === "jan-10-late" || f.filename === "undated"
+		),
+	);
+});
+
+// --- profiles database ---
+
+Deno.test("schema 1 databases are migrated and backed up", async () => {
+	await resetScratchDirs();
+	await Deno.writeTextFile(
+		APP_PATHS.PROFILES_DB_FILE,
+		JSON.stringify([{
+			name: "old",
+			active: true,
+			zipFile: join(profilesDir, "old.snapshot.json"),
+			lastModified: "2023-05-01T00:00:00.000Z",
+		}]),
+	);
+
+	const [profile] = await readProfiles();
+	assertEquals(profile.name, "old");
+	assertEquals(profile.createdAt, "2023-05-01T00:00:00.000Z");
+	assertEquals(profile.tags, []);
+	assertEquals(profile.dconfKeyFilters, null);
+	const stored = JSON.parse(
+		await Deno.readTextFile(APP_PATHS.PROFILES_DB_FILE),
+	);
+	assertEquals(stored.schemaVersion, 3);
+	assert(await pathExists(`${APP_PATHS.PROFILES_DB_FILE}.schema-1.bak`));
+});
+
+Deno.test("entries missing only optional fields get defaults, invalid ones are quarantined", async () => {
+	await resetScratchDirs();
+	const dates = {
+		createdAt: "2024-01-01T00:00:00.000Z",
+		updatedAt: "2024-02-01T00:00:00.000Z",
+	};
+	await Deno.writeTextFile(
+		APP_PATHS.PROFILES_DB_FILE,
+		JSON.stringify({
+			schemaVersion: 3,
+			profiles: [
+				{
+					name: "minimal",
+					zipFile: "/p/minimal.snapshot.json",
+					...dates,
+				},
+				{ name: "", zipFile: "/p/unnamed.snapshot.json", ...dates },
+				{
+					name: "bad-tags",
+					zipFile: "/p/b.snapshot.json",
+					tags: "x",
+					...dates,
+				},
+				{ name: "minimal", zipFile: "/p/copy.snapshot.json", ...dates },
+			],
+		}),
+	);
+
+	const profiles = await readProfiles();
+	assertEquals(profiles, [{
+		name: "minimal",
+		active: false,
+		zipFile: "/p/minimal.snapshot.json",
+		description: "",
+		tags: [],
+		...dates,
+		lastActivatedAt: null,
+		components: null,
+		cinnamonVersion: null,
+		dconfKeyFilters: null,
+	}]);
+	const quarantined = JSON.parse(
+		await Deno.readTextFile(APP_PATHS.PROFILES_QUARANTINE_FILE),
+	);
+	assertEquals(
+		quarantined.map((q: { reason: string }) => q.reason),
+		["missing or empty name", "invalid tags", "duplicate name"],
+	);
+});
+
+// --- dconf key filters ---
+
+Deno.test("key filters match globs against whole key paths", () => {
+	const filters = {
+		include: ["/org/cinnamon/**"],
+		exclude: ["/org/cinnamon/desktop/*/picture-*", "**/recent-*"],
+	};
+	assert(isDconfKeyIncluded("/org/cinnamon/panels-enabled", filters));
+	assert(
+		isDconfKeyIncluded(
+			"/org/cinnamon/desktop/interface/gtk-theme",
+			filters,
+		),
+	);
+	assertFalse(
+		isDconfKeyIncluded(
+			"/org/cinnamon/desktop/background/picture-uri",
+			filters,
+		),
+	);
+	// a single * stays within one path segment
+	assertFalse(
+		isDconfKeyIncluded("/org/cinnamon/desktop/a/b/picture-uri", {
+			include: ["/org/cinnamon/desktop/*/picture-uri"],
+			exclude: [],
+		}),
+	);
+	assertFalse(
+		isDconfKeyIncluded("/org/cinnamon/launcher/recent-files", filters),
+	);
+	assertFalse(
+		isDconfKeyIncluded("/org/nemo/preferences/show-hidden", filters),
+	);
+	assert(
+		isDconfKeyIncluded("/org/nemo/preferences/show-hidden", {
+			include: [],
+			exclude: [],
+		}),
+	);
+});
+
+// --- auto rules ---
+
+Deno.test("time windows accept HH:MM up to 24:00", () => {
+	assertEquals(parseTimeWindow("08:00-18:30"), { start: 480, end: 1110 });
+	assertEquals(parseTimeWindow("22:00 - 6:00"), { start: 1320, end: 360 });
+	assertEquals(parseTimeWindow("00:00-24:00"), { start: 0, end: 1440 });
+	for (
+		const window of [
+			"24:59-08:00",
+			"08:00-24:01",
+			"25:00-26:00",
+			"08:60-09:00",
+			"8-9",
+			"08:00",
+		]
+	) {
+		assertEquals(parseTimeWindow(window), null, window);
+	}
+});
+
+Deno.test("rules match weekdays and time windows that wrap past midnight", async () => {
+	const mondayNight = new Date(2026, 0, 5, 23, 30);
+	const mondayNoon = new Date(2026, 0, 5, 12, 0);
+	const rule = {
+		profile: "night",
+		time: "22:00-06:00",
+		weekdays: ["Monday", "tue"],
+	};
+
+	assert((await evaluateAutoRule(rule, mondayNight)).matched);
+	const noon = await evaluateAutoRule(rule, mondayNoon);
+	assertFalse(noon.matched);
+	assertStringIncludes(noon.reasons[0], "outside 22:00-06:00");
+	assertFalse(
+		(await evaluateAutoRule(
+			{ ...rule, weekdays: ["sat", "sun"] },
+			mondayNight,
+		)).matched,
+	);
+	assertEquals(
+		(await evaluateAutoRule({ profile: "any" }, mondayNoon)).reasons,
+		["no conditions (always matches)"],
+	);
+});
+
+Deno.test("rules are evaluated by priority, then in config order", () => {
+	const order = sortAutoRules([
+		{ profile: "a" },
+		{ profile: "b", priority: 10 },
+		{ profile: "c" },
+		{ profile: "d", priority: -1 },
+		{ profile: "e", priority: 10 },
+	]).map(({ rule }) => rule.profile);
+	assertEquals(order, ["b", "e", "a", "c", "d"]);
+});
+
+Deno.test("rule mistakes are reported", () => {
+	const profiles = [{ name: "home" } as Profile];
+	assertEquals(
+		validateAutoRules([{
+			profile: "home",
+			time: "09:00-17:00",
+			weekdays: ["mon"],
+		}], profiles),
+		[],
+	);
+	assertEquals(
+		validateAutoRules(
+			[
+				{ profile: "missing" },
+				{ name: "late", profile: "home", time: "24:30-08:00" },
+				{ profile: "home", priority: "high" as unknown as number },
+				{ profile: "home", output: "on" },
+				{ profile: "home", weekdays: ["someday"] },
+			],
+			profiles,
+		),
+		[
+			'Rule #1: profile "missing" does not exist',
+			'Rule "late": "time" must look like "08:00-18:00", got "24:30-08:00"',
+			'Rule #3: "priority" must be a number',
+			'Rule #4: "output" needs a "command"',
+			'Rule #5: unknown weekday "someday"',
+		],
+	);
+});
+
+Deno.test("renaming a profile updates the rules that use it", async () => {
+	await resetScratchDirs();
+	await Deno.writeTextFile(
+		APP_PATHS.CONFIG_FILE,
+		JSON.stringify({
+			autoRules: [{ profile: "work" }, { profile: "home" }, {
+				profile: "work",
+				priority: 2,
+			}],
+		}),
+	);
+
+	assertEquals(await renameProfileInAutoRules("work", "office"), 2);
+	const config = JSON.parse(await Deno.readTextFile(APP_PATHS.CONFIG_FILE));
+	assertEquals(
+		config.autoRules.map((r: { profile: string }) => r.profile),
+		["office", "home", "office"],
+	);
+});
+
+// --- restore journal ---
+
+const NO_COMPONENTS: ComponentOptions = {
+	userThemes: false,
+	systemThemes: false,
+	userIcons: false,
+	userIconsAlt: false,
+	systemIcons: false,
+	userFonts: false,
+	userFontsAlt: false,
+	systemFonts: false,
+	dconf: false,
+};
+
+Deno.test("new paths are listed without descending into new directories", async () => {
+	await resetScratchDirs();
+	const staged = join(scratchDir, "staged");
+	const live = join(scratchDir, "live");
+	await writeTree(staged, {
+		"Existing/index.theme": "x",
+		"Existing/gtk-3.0/new.css": "x",
+		"New/index.theme": "x",
+		"new.txt": "x",
+	});
+	await writeTree(live, { "Existing/index.theme": "old" });
+
+	assertEquals(
+		(await listNewPaths(staged, live)).sort(),
+		[
+			join(live, "Existing/gtk-3.0"),
+			join(live, "New"),
+			join(live, "new.txt"),
+		],
+	);
+	assertEquals(await listNewPaths(staged, join(scratchDir, "missing")), [
+		join(scratchDir, "missing"),
+	]);
+	assertEquals(await listNewPaths(join(scratchDir, "nothing"), live), []);
+});
+
+Deno.test("rollback restores the previous settings and removes added files", async () => {
+	await resetScratchDirs();
+	const before = join(scratchDir, "before");
+	await writeTree(before, {
+		"share/applets.json": "before",
+		"config/panel.json": "before",
+		"user-themes/Old/index.theme": "old",
+	});
+	const rollbackFile = join(profilesDir, "rollback-test.snapshot.json");
+	assert(await writeSnapshot(before, rollbackFile));
+	// the failed restore added a theme and changed the panel
+	await writeTree(homeDir, {
+		".themes/New/index.theme": "new",
+		".config/cinnamon/panel.json": "after",
+	});
+	const journal: RestoreJournal = {
+		operation: "switch new",
+		pid: 0,
+		startedAt: new Date().toISOString(),
+		source: join(profilesDir, "new.snapshot.json"),
+		rollbackFile,
+		ownsRollbackFile: true,
+		components: { ...NO_COMPONENTS, userThemes: true },
+		completedSteps: ["cinnamon files"],
+		currentStep: "themes",
+		createdPaths: [join(homeDir, ".themes/New")],
+	};
+
+	assert(await rollbackRestore(journal));
+	assertFalse(await pathExists(join(homeDir, ".themes/New")));
+	assertEquals(
+		await Deno.readTextFile(join(homeDir, ".themes/Old/index.theme")),
+		"old",
+	);
+	assertEquals(
+		await Deno.readTextFile(join(homeDir, ".config/cinnamon/panel.json")),
+		"before",
+	);
+});
+
+Deno.test("an unresolved journal is kept and blocks new restores", async () => {
+	await resetScratchDirs();
+	assert(await checkNoPendingRestore());
+	const journal: RestoreJournal = {
+		operation: "switch work",
+		pid: 0,
+		startedAt: new Date().toISOString(),
+		source: join(profilesDir, "work.snapshot.json"),
+		rollbackFile: null,
+		ownsRollbackFile: false,
+		components: NO_COMPONENTS,
+		completedSteps: [],
+		currentStep: "themes",
+	};
+	await Deno.writeTextFile(APP_PATHS.JOURNAL_FILE, JSON.stringify(journal));
+
+	await recoverInterruptedRestore(); // cannot ask, so it leaves the journal alone
+	assert(await pathExists(APP_PATHS.JOURNAL_FILE));
+	assertFalse(await checkNoPendingRestore());
+});